@@ -1,90 +1,9 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import mammoth from 'mammoth';
-import pdfParse from 'pdf-parse';
-import WordExtractor from 'word-extractor';
 import PDFDocument from 'pdfkit';
 import { Document, Packer, Paragraph, TextRun, HeadingLevel, Table, TableRow, TableCell, WidthType, AlignmentType, BorderStyle, ImageRun, Media } from 'docx';
 import { marked } from 'marked';
 
-const wordExtractor = new WordExtractor();
-
-export async function processFile(filePath: string): Promise<string> {
-  try {
-    // 检查文件是否存在
-    await fs.access(filePath);
-
-    const ext = path.extname(filePath).toLowerCase();
-    const buffer = await fs.readFile(filePath);
-
-    if (buffer.length === 0) {
-      throw new Error('文件为空');
-    }
-
-    switch (ext) {
-      case '.doc':
-        return await processDoc(filePath);
-      case '.docx':
-        return await processDocx(buffer);
-      case '.pdf':
-        return await processPdf(buffer);
-      case '.txt':
-      case '.md':
-        const text = buffer.toString('utf-8');
-        if (!text.trim()) {
-          throw new Error('文本文件内容为空');
-        }
-        return text;
-      default:
-        throw new Error(`不支持的文件格式: ${ext}。支持格式: .doc, .docx, .pdf, .txt, .md`);
-    }
-  } catch (error: any) {
-    if (error.code === 'ENOENT') {
-      throw new Error('文件不存在');
-    }
-    throw error;
-  }
-}
-
-async function processDoc(filePath: string): Promise<string> {
-  try {
-    const extracted = await wordExtractor.extract(filePath);
-    const text = extracted.getBody() || '';
-    if (!text.trim()) {
-      throw new Error('文档内容为空或无法提取文本');
-    }
-    return text;
-  } catch (error: any) {
-    throw new Error(`处理 Word 文档(.doc)失败: ${error.message || error}`);
-  }
-}
-
-async function processDocx(buffer: Buffer): Promise<string> {
-  try {
-    const result = await mammoth.extractRawText({ buffer });
-    const text = result.value || '';
-    if (!text.trim()) {
-      throw new Error('文档内容为空或无法提取文本');
-    }
-    return text;
-  } catch (error: any) {
-    throw new Error(`处理 Word 文档失败: ${error.message || error}`);
-  }
-}
-
-async function processPdf(buffer: Buffer): Promise<string> {
-  try {
-    const data = await pdfParse(buffer);
-    const text = data.text || '';
-    if (!text.trim()) {
-      throw new Error('PDF 内容为空或无法提取文本');
-    }
-    return text;
-  } catch (error: any) {
-    throw new Error(`处理 PDF 文档失败: ${error.message || error}`);
-  }
-}
-
 // 排版设置类型定义
 export interface ParagraphStyle {
   fontFamily: string;
@@ -3,11 +3,40 @@ import * as path from 'path';
 import * as fs from 'fs/promises';
 import { constants as fsConstants } from 'fs';
 import { autoUpdater } from 'electron-updater';
-import { processFile, convertToFormat } from './fileProcessor';
-import { callLLM, processHomework, ProcessStepResult, HomeworkProcessResult, editContent } from './services/llmService';
+import { convertToFormat } from './fileProcessor';
+import { processFile, getOpenDialogFilters, getFileFormats } from './services/fileService';
+import { terminateOcrWorker } from './utils/ocr';
+import { resolveCacheOptions, getResponseCacheStats, clearResponseCache, ResponseCacheOptions, DEFAULT_CACHE_SETTINGS } from './services/responseCache';
+import { createTrace, finishTrace, saveTrace, listTraces, loadTrace, clearTraces, applyRetention, RequestTrace } from './services/requestTraces';
+import { loadTemplateLibrary, saveTemplateLibrary, getActivePrompts, PromptSet, PromptTemplateLibrary, PROMPT_STEPS, DEFAULT_PROMPTS } from './services/promptTemplates';
+import { callLLM, processHomework, estimateHomework, regenerateAnswer, ProcessStepResult, ProcessStepEvent, HomeworkProcessResult, editContent, listLocalModels, chat, Attachment, ChatMessage, RetryInfo, LLMCallTrace, DEFAULT_GENERATION_PARAMS, DEFAULT_LOCAL_URL } from './services/llmService';
 
 let mainWindow: BrowserWindow | null = null;
 
+// 图片资源目录（与 Markdown 中的 ./assets/images/ 相对路径对应）
+const getImagesDir = () => path.join(app.getPath('documents'), 'Work2Word_Assets', 'images');
+
+// OCR 语言数据目录
+const getOcrDataDir = () => path.join(app.getPath('userData'), 'ocr-data');
+const getPromptTemplatesPath = () => path.join(app.getPath('userData'), 'prompt-templates.json');
+const getResponseCacheDir = () => path.join(app.getPath('userData'), 'response-cache');
+// 调试目录，保存每次请求的记录
+const getTraceDir = () => path.join(app.getPath('documents'), 'Work2Word_Debug');
+
+// 按 LLM 配置中的缓存设置生成缓存选项，缓存关闭时为 undefined
+const getResponseCache = (llmConfig: any): ResponseCacheOptions | undefined =>
+  resolveCacheOptions(getResponseCacheDir(), llmConfig?.cache);
+
+// 读取用户选用的提示词模版，读取失败时使用默认提示词
+const loadActivePrompts = async (): Promise<PromptSet> => {
+  try {
+    return getActivePrompts(await loadTemplateLibrary(getPromptTemplatesPath()));
+  } catch (error) {
+    console.error('加载提示词模版失败，使用默认提示词:', error);
+    return {};
+  }
+};
+
 // 检测当前平台
 const isMac = process.platform === 'darwin';
 const isWin = process.platform === 'win32';
@@ -180,8 +209,7 @@ app.whenReady().then(() => {
       const fileName = url.replace('work2word-local://', '');
 
       // 构建图片的完整路径
-      const documentsPath = app.getPath('documents');
-      const imagePath = path.join(documentsPath, 'Work2Word_Assets', 'images', fileName);
+      const imagePath = path.join(getImagesDir(), fileName);
 
       // 检查文件是否存在
       try {
@@ -220,6 +248,11 @@ app.whenReady().then(() => {
   });
 
   createWindow();
+
+  // 按保留策略清理调试目录中过期的请求记录
+  applyRetention(getTraceDir()).catch(error => {
+    console.error('清理请求记录失败:', error);
+  });
   
   // 启动自动更新检查
   setupAutoUpdater();
@@ -237,59 +270,335 @@ app.on('window-all-closed', () => {
   }
 });
 
+app.on('will-quit', () => {
+  terminateOcrWorker();
+});
+
+// 渲染进程传入的文件处理选项
+interface ProcessFileRequest {
+  // markdown：返回保留结构的 Markdown（导入编辑器时使用），默认返回纯文本
+  format?: 'text' | 'markdown';
+  pageRange?: { start: number; end: number };
+  encoding?: string;
+}
+
 // IPC handlers
-ipcMain.handle('process-file', async (_, filePath: string) => {
+ipcMain.handle('process-file', async (_, filePath: string, options: ProcessFileRequest = {}) => {
   try {
-    const content = await processFile(filePath);
-    return { success: true, content };
+    const markdown = options.format === 'markdown';
+    const document = await processFile(filePath, {
+      markdown,
+      pageRange: options.pageRange,
+      encoding: options.encoding,
+      imageDir: getImagesDir(),
+      ocrDataDir: getOcrDataDir(),
+    });
+    const stat = await fs.stat(filePath);
+    return {
+      success: true,
+      content: markdown ? document.markdown ?? document.text : document.text,
+      title: document.title,
+      pages: document.pages,
+      images: document.images,
+      warnings: document.warnings,
+      encoding: document.encoding,
+      fileSize: stat.size,
+    };
   } catch (error: any) {
     return { success: false, error: error.message };
   }
 });
 
-ipcMain.handle('call-llm', async (_, prompt: string, fileContent: string, llmConfig: any) => {
+// 获取支持的文件格式
+ipcMain.handle('get-file-formats', () => getFileFormats());
+
+// 将流式输出的增量文本推送给发起请求的窗口
+const createTokenSender = (sender: Electron.WebContents, requestId?: string) => (token: string) => {
+  if (!sender.isDestroyed()) {
+    sender.send('llm-token', requestId, token);
+  }
+};
+
+// 请求失败准备重试时通知渲染进程
+const createRetrySender = (sender: Electron.WebContents, requestId?: string) => (info: RetryInfo) => {
+  if (!sender.isDestroyed()) {
+    sender.send('llm-retry', requestId, info);
+  }
+};
+
+// 进行中的 LLM 请求，按渲染进程生成的请求 ID 记录，用于取消
+const activeRequests = new Map<string, AbortController>();
+
+// 登记请求并返回其 AbortController（未提供请求 ID 时无法取消）
+const registerRequest = (requestId?: string): AbortController => {
+  const controller = new AbortController();
+  if (requestId) {
+    activeRequests.set(requestId, controller);
+  }
+  return controller;
+};
+
+const unregisterRequest = (requestId?: string) => {
+  if (requestId) {
+    activeRequests.delete(requestId);
+  }
+};
+
+// 记录请求中的所有模型调用，请求结束（成功、失败或取消）后保存到调试目录
+const runWithTrace = async <T>(
+  trace: RequestTrace,
+  signal: AbortSignal,
+  run: (onTrace: (call: LLMCallTrace) => void) => Promise<T>
+): Promise<T> => {
+  try {
+    const result = await run((call) => { trace.calls.push(call); });
+    finishTrace(trace, 'success');
+    return result;
+  } catch (error: any) {
+    finishTrace(trace, signal.aborted ? 'cancelled' : 'error', error.message || String(error));
+    throw error;
+  } finally {
+    await saveTrace(getTraceDir(), trace);
+  }
+};
+
+ipcMain.handle('call-llm', async (event, prompt: string, attachments: Attachment[], llmConfig: any, requestId?: string) => {
+  const controller = registerRequest(requestId);
+  try {
+    const trace = createTrace('call', requestId, { prompt, attachments, config: llmConfig });
+    const result = await runWithTrace(trace, controller.signal, async (onTrace) => callLLM(prompt, attachments, llmConfig, {
+      onToken: createTokenSender(event.sender, requestId),
+      signal: controller.signal,
+      onRetry: createRetrySender(event.sender, requestId),
+      prompts: await loadActivePrompts(),
+      cache: getResponseCache(llmConfig),
+      onTrace,
+    }));
+    return { success: true, result };
+  } catch (error: any) {
+    return { success: false, error: error.message, cancelled: controller.signal.aborted };
+  } finally {
+    unregisterRequest(requestId);
+  }
+});
+
+// 多轮对话接口（Ask 模式）
+ipcMain.handle('chat', async (
+  event,
+  messages: ChatMessage[],
+  attachments: Attachment[],
+  llmConfig: any,
+  document?: string,
+  requestId?: string
+) => {
+  const controller = registerRequest(requestId);
   try {
-    const result = await callLLM(prompt, fileContent, llmConfig);
+    const question = [...messages].reverse().find(message => message.role === 'user')?.content || '';
+    const trace = createTrace('ask', requestId, { prompt: question, attachments, config: llmConfig });
+    const result = await runWithTrace(trace, controller.signal, async (onTrace) => chat(messages, attachments, llmConfig, {
+      document,
+      onToken: createTokenSender(event.sender, requestId),
+      signal: controller.signal,
+      onRetry: createRetrySender(event.sender, requestId),
+      prompts: await loadActivePrompts(),
+      onTrace,
+    }));
     return { success: true, result };
   } catch (error: any) {
-    return { success: false, error: error.message };
+    return { success: false, error: error.message, cancelled: controller.signal.aborted };
+  } finally {
+    unregisterRequest(requestId);
   }
 });
 
 // 新增：分步处理作业接口
-ipcMain.handle('process-homework-steps', async (_, prompt: string, fileContent: string, llmConfig: any) => {
+ipcMain.handle('process-homework-steps', async (
+  event,
+  prompt: string,
+  attachments: Attachment[],
+  llmConfig: any,
+  requestId?: string,
+  completedSteps?: ProcessStepResult[],
+  bypassCache?: boolean
+) => {
+  const controller = registerRequest(requestId);
   try {
-    const result = await processHomework(prompt, fileContent, llmConfig);
+    const sendStepEvent = (stepEvent: ProcessStepEvent) => {
+      if (!event.sender.isDestroyed()) {
+        event.sender.send('process-step', requestId, stepEvent);
+      }
+    };
+    const trace = createTrace('build', requestId, { prompt, attachments, config: llmConfig });
+    const result = await runWithTrace(trace, controller.signal, async (onTrace) => processHomework(
+      prompt,
+      attachments,
+      llmConfig,
+      (step) => sendStepEvent({ step: step.step, status: 'complete', elapsedMs: step.elapsedMs ?? 0, result: step }),
+      {
+        onToken: createTokenSender(event.sender, requestId),
+        signal: controller.signal,
+        onRetry: createRetrySender(event.sender, requestId),
+        onStepStart: (step) => sendStepEvent({ step, status: 'start', elapsedMs: 0 }),
+        completedSteps,
+        prompts: await loadActivePrompts(),
+        cache: getResponseCache(llmConfig),
+        bypassCache,
+        onTrace,
+      }
+    ));
     return { success: true, result };
+  } catch (error: any) {
+    return { success: false, error: error.message, cancelled: controller.signal.aborted };
+  } finally {
+    unregisterRequest(requestId);
+  }
+});
+
+// 发送前估算作业处理的 token 用量、费用，以及是否超出模型上下文长度
+ipcMain.handle('estimate-homework', async (_, prompt: string, attachments: Attachment[], llmConfig: any) => {
+  try {
+    const estimate = estimateHomework(prompt, attachments, llmConfig, { prompts: await loadActivePrompts() });
+    return { success: true, estimate };
   } catch (error: any) {
     return { success: false, error: error.message };
   }
 });
 
 // 新增：编辑内容接口 (Copilot 风格)
-ipcMain.handle('edit-content', async (_, instruction: string, currentContent: string, llmConfig: any) => {
+ipcMain.handle('edit-content', async (event, instruction: string, currentContent: string, llmConfig: any, requestId?: string) => {
+  const controller = registerRequest(requestId);
+  try {
+    const trace = createTrace('edit', requestId, { prompt: instruction, config: llmConfig });
+    const result = await runWithTrace(trace, controller.signal, async (onTrace) => editContent(instruction, currentContent, llmConfig, {
+      signal: controller.signal,
+      onRetry: createRetrySender(event.sender, requestId),
+      prompts: await loadActivePrompts(),
+      onTrace,
+    }));
+    return { success: true, result };
+  } catch (error: any) {
+    return { success: false, error: error.message, cancelled: controller.signal.aborted };
+  } finally {
+    unregisterRequest(requestId);
+  }
+});
+
+// 重新生成单道题目的答案，llmConfig 可指定与原来不同的模型
+ipcMain.handle('regenerate-answer', async (
+  event,
+  questionsStep: ProcessStepResult,
+  questionId: number,
+  prompt: string,
+  attachments: Attachment[],
+  llmConfig: any,
+  requestId?: string
+) => {
+  const controller = registerRequest(requestId);
   try {
-    const result = await editContent(instruction, currentContent, llmConfig);
+    // 重新生成时不读取缓存，否则相同的请求会得到相同的答案
+    const trace = createTrace('regenerate', requestId, { prompt, attachments, config: llmConfig });
+    const result = await runWithTrace(trace, controller.signal, async (onTrace) => regenerateAnswer(questionsStep, questionId, prompt, attachments, llmConfig, {
+      signal: controller.signal,
+      onRetry: createRetrySender(event.sender, requestId),
+      prompts: await loadActivePrompts(),
+      cache: getResponseCache(llmConfig),
+      bypassCache: true,
+      onTrace,
+    }));
     return { success: true, result };
+  } catch (error: any) {
+    return { success: false, error: error.message, cancelled: controller.signal.aborted };
+  } finally {
+    unregisterRequest(requestId);
+  }
+});
+
+// 响应缓存的条目数和占用空间
+ipcMain.handle('get-response-cache-stats', async () => {
+  try {
+    return { success: true, stats: await getResponseCacheStats(getResponseCacheDir()) };
   } catch (error: any) {
     return { success: false, error: error.message };
   }
 });
 
-// 新增：保存调试数据接口
-ipcMain.handle('save-debug-data', async (_, data: ProcessStepResult, filename: string) => {
+// 清空响应缓存
+ipcMain.handle('clear-response-cache', async () => {
   try {
-    // 获取用户文档目录
-    const documentsPath = app.getPath('documents');
-    const debugDir = path.join(documentsPath, 'Work2Word_Debug');
-    
-    // 确保目录存在
-    await fs.mkdir(debugDir, { recursive: true });
-    
-    const filePath = path.join(debugDir, filename);
-    await fs.writeFile(filePath, JSON.stringify(data, null, 2), 'utf-8');
-    
-    return { success: true, path: filePath };
+    return { success: true, stats: await clearResponseCache(getResponseCacheDir()) };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
+// 取消进行中的 LLM 请求
+ipcMain.handle('cancel-request', (_, requestId: string) => {
+  const controller = activeRequests.get(requestId);
+  if (!controller) {
+    return { success: false, error: '请求不存在或已完成' };
+  }
+  controller.abort();
+  return { success: true };
+});
+
+// 生成参数、响应缓存和本地模型服务地址的默认值，设置界面中作为未填写项的提示
+ipcMain.handle('get-llm-defaults', () => ({
+  generation: DEFAULT_GENERATION_PARAMS,
+  cache: DEFAULT_CACHE_SETTINGS,
+  localUrl: DEFAULT_LOCAL_URL,
+}));
+
+// 获取本地模型服务（Ollama / llama.cpp）上的模型列表
+ipcMain.handle('list-local-models', async (_, apiUrl?: string, apiKey?: string) => {
+  try {
+    const models = await listLocalModels(apiUrl, apiKey);
+    return { success: true, models };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
+// 请求记录列表，query 不为空时按内容搜索
+ipcMain.handle('list-traces', async (_, query?: string) => {
+  try {
+    return { success: true, traces: await listTraces(getTraceDir(), query) };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
+// 读取单条请求记录的完整内容
+ipcMain.handle('get-trace', async (_, id: string) => {
+  try {
+    return { success: true, trace: await loadTrace(getTraceDir(), id) };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
+// 将选中的请求记录导出为一个 JSON 文件
+ipcMain.handle('export-traces', async (_, ids: string[]) => {
+  if (!mainWindow) return { success: false, canceled: true };
+  try {
+    const traces = await Promise.all(ids.map(id => loadTrace(getTraceDir(), id)));
+    const result = await dialog.showSaveDialog(mainWindow, {
+      defaultPath: ids.length === 1 ? `${ids[0]}.json` : `work2word-traces-${Date.now()}.json`,
+      filters: [{ name: 'JSON', extensions: ['json'] }],
+    });
+    if (result.canceled || !result.filePath) {
+      return { success: false, canceled: true };
+    }
+    await fs.writeFile(result.filePath, JSON.stringify(traces, null, 2), 'utf-8');
+    return { success: true, path: result.filePath };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
+// 删除所有请求记录
+ipcMain.handle('clear-traces', async () => {
+  try {
+    return { success: true, removed: await clearTraces(getTraceDir()) };
   } catch (error: any) {
     return { success: false, error: error.message };
   }
@@ -339,31 +648,25 @@ ipcMain.handle('open-file-dialog', async () => {
   if (!mainWindow) return { canceled: true };
 
   const result = await dialog.showOpenDialog(mainWindow, {
-    properties: ['openFile'],
-    filters: [
-      { name: '文档文件', extensions: ['doc', 'docx', 'pdf', 'txt', 'md'] },
-      { name: 'Word 文档', extensions: ['doc', 'docx'] },
-      { name: 'PDF 文档', extensions: ['pdf'] },
-      { name: 'Markdown', extensions: ['md'] },
-      { name: '文本文件', extensions: ['txt'] },
-    ],
+    properties: ['openFile', 'multiSelections'],
+    filters: getOpenDialogFilters('文档文件'),
   });
 
   if (result.canceled || result.filePaths.length === 0) {
     return { canceled: true };
   }
 
-  return { canceled: false, filePath: result.filePaths[0] };
+  return { canceled: false, filePath: result.filePaths[0], filePaths: result.filePaths };
 });
 
-// 打开 Markdown 文件对话框（只显示 MD 文件）
+// 打开可导入编辑器的文件对话框（Markdown 和 Word 文档）
 ipcMain.handle('open-markdown-file-dialog', async () => {
   if (!mainWindow) return { canceled: true };
 
   const result = await dialog.showOpenDialog(mainWindow, {
     properties: ['openFile'],
     filters: [
-      { name: 'Markdown 文件', extensions: ['md'] },
+      ...getOpenDialogFilters('可导入文件', extractor => !!extractor.importable),
       { name: '所有文件', extensions: ['*'] },
     ],
   });
@@ -409,6 +712,28 @@ ipcMain.handle('load-settings', async () => {
   }
 });
 
+// 读取提示词模版库，同时返回各步骤的说明和默认提示词（用于恢复默认）
+ipcMain.handle('load-prompt-templates', async () => {
+  try {
+    const library = await loadTemplateLibrary(getPromptTemplatesPath());
+    return { success: true, library, steps: PROMPT_STEPS, defaults: DEFAULT_PROMPTS };
+  } catch (error: any) {
+    console.error('加载提示词模版失败:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// 保存提示词模版库，返回整理后的模版库
+ipcMain.handle('save-prompt-templates', async (_, library: PromptTemplateLibrary) => {
+  try {
+    const saved = await saveTemplateLibrary(getPromptTemplatesPath(), library);
+    return { success: true, library: saved };
+  } catch (error: any) {
+    console.error('保存提示词模版失败:', error);
+    return { success: false, error: error.message };
+  }
+});
+
 // 手动检查更新
 ipcMain.handle('check-for-updates', async () => {
   if (!app.isPackaged) {
@@ -432,9 +757,7 @@ ipcMain.handle('select-and-save-image', async () => {
   if (!mainWindow) return { success: false, error: '窗口不可用' };
 
   try {
-    // 获取用户文档目录
-    const documentsPath = app.getPath('documents');
-    const assetsDir = path.join(documentsPath, 'Work2Word_Assets', 'images');
+    const assetsDir = getImagesDir();
 
     // 确保目录存在
     await fs.mkdir(assetsDir, { recursive: true });
@@ -1,27 +1,77 @@
 import { contextBridge, ipcRenderer } from 'electron';
 
 contextBridge.exposeInMainWorld('electronAPI', {
-  processFile: (filePath: string) => ipcRenderer.invoke('process-file', filePath),
-  callLLM: (prompt: string, fileContent: string, llmConfig: any) => 
-    ipcRenderer.invoke('call-llm', prompt, fileContent, llmConfig),
+  processFile: (filePath: string, options?: { format?: 'text' | 'markdown'; pageRange?: { start: number; end: number }; encoding?: string }) =>
+    ipcRenderer.invoke('process-file', filePath, options),
+  callLLM: (prompt: string, attachments: { name: string; type: string; content: string }[], llmConfig: any, requestId?: string) => 
+    ipcRenderer.invoke('call-llm', prompt, attachments, llmConfig, requestId),
+  // 多轮对话（Ask 模式），document 为可选的当前编辑器文档
+  chat: (messages: { role: string; content: string }[], attachments: { name: string; type: string; content: string }[], llmConfig: any, document?: string, requestId?: string) =>
+    ipcRenderer.invoke('chat', messages, attachments, llmConfig, document, requestId),
   // 新增：分步处理作业
-  processHomeworkSteps: (prompt: string, fileContent: string, llmConfig: any) =>
-    ipcRenderer.invoke('process-homework-steps', prompt, fileContent, llmConfig),
+  processHomeworkSteps: (prompt: string, attachments: { name: string; type: string; content: string }[], llmConfig: any, requestId?: string, completedSteps?: any[], bypassCache?: boolean) =>
+    ipcRenderer.invoke('process-homework-steps', prompt, attachments, llmConfig, requestId, completedSteps, bypassCache),
+  // 发送前估算作业处理的用量和费用
+  estimateHomework: (prompt: string, attachments: { name: string; type: string; content: string }[], llmConfig: any) =>
+    ipcRenderer.invoke('estimate-homework', prompt, attachments, llmConfig),
+  // 流式输出：订阅 LLM 增量文本，返回取消订阅函数
+  onLLMToken: (callback: (requestId: string | undefined, token: string) => void) => {
+    const listener = (_: Electron.IpcRendererEvent, requestId: string | undefined, token: string) => callback(requestId, token);
+    ipcRenderer.on('llm-token', listener);
+    return () => {
+      ipcRenderer.removeListener('llm-token', listener);
+    };
+  },
+  // 作业处理步骤进度：订阅步骤开始/完成事件，返回取消订阅函数
+  onProcessStep: (callback: (requestId: string | undefined, event: any) => void) => {
+    const listener = (_: Electron.IpcRendererEvent, requestId: string | undefined, event: any) => callback(requestId, event);
+    ipcRenderer.on('process-step', listener);
+    return () => {
+      ipcRenderer.removeListener('process-step', listener);
+    };
+  },
+  // 请求重试：订阅请求失败后的重试通知，返回取消订阅函数
+  onLLMRetry: (callback: (requestId: string | undefined, info: any) => void) => {
+    const listener = (_: Electron.IpcRendererEvent, requestId: string | undefined, info: any) => callback(requestId, info);
+    ipcRenderer.on('llm-retry', listener);
+    return () => {
+      ipcRenderer.removeListener('llm-retry', listener);
+    };
+  },
   // 新增：编辑内容 (Copilot 风格)
-  editContent: (instruction: string, currentContent: string, llmConfig: any) =>
-    ipcRenderer.invoke('edit-content', instruction, currentContent, llmConfig),
-  // 新增：保存调试数据
-  saveDebugData: (data: any, filename: string) =>
-    ipcRenderer.invoke('save-debug-data', data, filename),
+  editContent: (instruction: string, currentContent: string, llmConfig: any, requestId?: string) =>
+    ipcRenderer.invoke('edit-content', instruction, currentContent, llmConfig, requestId),
+  // 重新生成单道题目的答案
+  regenerateAnswer: (questionsStep: any, questionId: number, prompt: string, attachments: { name: string; type: string; content: string }[], llmConfig: any, requestId?: string) =>
+    ipcRenderer.invoke('regenerate-answer', questionsStep, questionId, prompt, attachments, llmConfig, requestId),
+  // 响应缓存
+  getResponseCacheStats: () => ipcRenderer.invoke('get-response-cache-stats'),
+  clearResponseCache: () => ipcRenderer.invoke('clear-response-cache'),
+  // 取消进行中的 LLM 请求
+  cancelRequest: (requestId: string) =>
+    ipcRenderer.invoke('cancel-request', requestId),
+  // 获取本地模型服务上的模型列表
+  getLLMDefaults: () => ipcRenderer.invoke('get-llm-defaults'),
+  listLocalModels: (apiUrl?: string, apiKey?: string) =>
+    ipcRenderer.invoke('list-local-models', apiUrl, apiKey),
+  // 请求记录
+  listTraces: (query?: string) => ipcRenderer.invoke('list-traces', query),
+  getTrace: (id: string) => ipcRenderer.invoke('get-trace', id),
+  exportTraces: (ids: string[]) => ipcRenderer.invoke('export-traces', ids),
+  clearTraces: () => ipcRenderer.invoke('clear-traces'),
   convertFile: (mdContent: string, format: 'doc' | 'pdf' | 'md', outputPath?: string, formatSettings?: any) =>
     ipcRenderer.invoke('convert-file', mdContent, format, outputPath, formatSettings),
   saveFileDialog: (defaultFilename: string) =>
     ipcRenderer.invoke('save-file-dialog', defaultFilename),
   openFileDialog: () => ipcRenderer.invoke('open-file-dialog'),
+  getFileFormats: () => ipcRenderer.invoke('get-file-formats'),
   openMarkdownFileDialog: () => ipcRenderer.invoke('open-markdown-file-dialog'),
   // 设置相关
   saveSettings: (settings: any) => ipcRenderer.invoke('save-settings', settings),
   loadSettings: () => ipcRenderer.invoke('load-settings'),
+  // 提示词模版
+  loadPromptTemplates: () => ipcRenderer.invoke('load-prompt-templates'),
+  savePromptTemplates: (library: any) => ipcRenderer.invoke('save-prompt-templates', library),
   // 更新相关
   checkForUpdates: () => ipcRenderer.invoke('check-for-updates'),
   getAppVersion: () => ipcRenderer.invoke('get-app-version'),
@@ -32,17 +82,34 @@ contextBridge.exposeInMainWorld('electronAPI', {
 declare global {
   interface Window {
     electronAPI: {
-      processFile: (filePath: string) => Promise<any>;
-      callLLM: (prompt: string, fileContent: string, llmConfig: any) => Promise<any>;
-      processHomeworkSteps: (prompt: string, fileContent: string, llmConfig: any) => Promise<any>;
-      editContent: (instruction: string, currentContent: string, llmConfig: any) => Promise<any>;
-      saveDebugData: (data: any, filename: string) => Promise<any>;
+      processFile: (filePath: string, options?: { format?: 'text' | 'markdown'; pageRange?: { start: number; end: number }; encoding?: string }) => Promise<any>;
+      callLLM: (prompt: string, attachments: { name: string; type: string; content: string }[], llmConfig: any, requestId?: string) => Promise<any>;
+      chat: (messages: { role: string; content: string }[], attachments: { name: string; type: string; content: string }[], llmConfig: any, document?: string, requestId?: string) => Promise<any>;
+      processHomeworkSteps: (prompt: string, attachments: { name: string; type: string; content: string }[], llmConfig: any, requestId?: string, completedSteps?: any[], bypassCache?: boolean) => Promise<any>;
+      estimateHomework: (prompt: string, attachments: { name: string; type: string; content: string }[], llmConfig: any) => Promise<any>;
+      onLLMToken: (callback: (requestId: string | undefined, token: string) => void) => () => void;
+      onProcessStep: (callback: (requestId: string | undefined, event: any) => void) => () => void;
+      onLLMRetry: (callback: (requestId: string | undefined, info: any) => void) => () => void;
+      editContent: (instruction: string, currentContent: string, llmConfig: any, requestId?: string) => Promise<any>;
+      regenerateAnswer: (questionsStep: any, questionId: number, prompt: string, attachments: { name: string; type: string; content: string }[], llmConfig: any, requestId?: string) => Promise<any>;
+      getResponseCacheStats: () => Promise<any>;
+      clearResponseCache: () => Promise<any>;
+      cancelRequest: (requestId: string) => Promise<any>;
+      getLLMDefaults: () => Promise<any>;
+      listLocalModels: (apiUrl?: string, apiKey?: string) => Promise<any>;
+      listTraces: (query?: string) => Promise<any>;
+      getTrace: (id: string) => Promise<any>;
+      exportTraces: (ids: string[]) => Promise<any>;
+      clearTraces: () => Promise<any>;
       convertFile: (mdContent: string, format: 'doc' | 'pdf' | 'md', outputPath?: string, formatSettings?: any) => Promise<any>;
       saveFileDialog: (defaultFilename: string) => Promise<any>;
       openFileDialog: () => Promise<any>;
+      getFileFormats: () => Promise<any>;
       openMarkdownFileDialog: () => Promise<{ canceled: boolean; filePath?: string }>;
       saveSettings: (settings: any) => Promise<any>;
       loadSettings: () => Promise<any>;
+      loadPromptTemplates: () => Promise<any>;
+      savePromptTemplates: (library: any) => Promise<any>;
       checkForUpdates: () => Promise<any>;
       getAppVersion: () => Promise<string>;
       selectAndSaveImage: () => Promise<{ success: boolean; canceled?: boolean; relativePath?: string; fullPath?: string; error?: string }>;
@@ -0,0 +1,294 @@
+/**
+ * 内置文件提取器
+ * 每个提取器声明支持的扩展名和 MIME 类型，并返回统一的 ExtractedDocument
+ */
+
+import * as path from 'path';
+import mammoth from 'mammoth';
+import WordExtractor from 'word-extractor';
+import { FileExtractor, ExtractedDocument } from '../types/index';
+import { pptxToMarkdown } from '../utils/pptxParser';
+import { parseXlsx, csvToSheet, sheetsToMarkdown } from '../utils/spreadsheetParser';
+import { docxToMarkdown } from '../utils/docxConverter';
+import { extractPdfPages, formatPdfPages, getPageInfos, clampPageRange, renderPdfPages } from '../utils/pdfParser';
+import { recognizeImage } from '../utils/ocr';
+import { decodeText } from '../utils/textEncoding';
+import { LANGUAGE_BY_EXTENSION, formatCodeBlock, notebookToMarkdown } from '../utils/codeParser';
+
+const wordExtractor = new WordExtractor();
+
+// 创建只包含文本的提取结果
+function textDocument(text: string, extra: Partial<ExtractedDocument> = {}): ExtractedDocument {
+  return { text, images: [], warnings: [], ...extra };
+}
+
+/**
+ * 旧版 Word 文档 (.doc)
+ */
+export const docExtractor: FileExtractor = {
+  name: 'Word 文档',
+  extensions: ['doc'],
+  mimeTypes: ['application/msword'],
+  async extract(_buffer, filePath) {
+    try {
+      const extracted = await wordExtractor.extract(filePath);
+      const text = extracted.getBody() || '';
+      if (!text.trim()) {
+        throw new Error('文档内容为空或无法提取文本');
+      }
+      return textDocument(text);
+    } catch (error: any) {
+      throw new Error(`处理 Word 文档(.doc)失败: ${error.message || error}`);
+    }
+  },
+};
+
+/**
+ * 新版 Word 文档 (.docx)
+ * markdown 模式下保留标题、列表、表格，并将嵌入图片保存到 imageDir
+ */
+export const docxExtractor: FileExtractor = {
+  name: 'Word 文档',
+  extensions: ['docx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  importable: true,
+  async extract(buffer, _filePath, options) {
+    if (options.markdown && !options.imageDir) {
+      throw new Error('未指定图片保存目录');
+    }
+    try {
+      if (options.markdown && options.imageDir) {
+        const result = await docxToMarkdown(buffer, options.imageDir);
+        if (!result.markdown.trim()) {
+          throw new Error('文档内容为空或无法提取文本');
+        }
+        return {
+          text: result.markdown,
+          markdown: result.markdown,
+          images: result.images,
+          warnings: result.warnings,
+        };
+      }
+
+      const result = await mammoth.extractRawText({ buffer });
+      const text = result.value || '';
+      if (!text.trim()) {
+        throw new Error('文档内容为空或无法提取文本');
+      }
+      return textDocument(text, { warnings: result.messages.map(message => message.message) });
+    } catch (error: any) {
+      throw new Error(`处理 Word 文档失败: ${error.message || error}`);
+    }
+  },
+};
+
+/**
+ * PDF 文档：逐页提取文本，没有文本层的页面（扫描件）渲染为图片后 OCR 识别
+ */
+export const pdfExtractor: FileExtractor = {
+  name: 'PDF 文档',
+  extensions: ['pdf'],
+  mimeTypes: ['application/pdf'],
+  async extract(buffer, _filePath, options) {
+    try {
+      const pages = await extractPdfPages(buffer);
+      const { pageRange, ocrDataDir } = options;
+      const range = pageRange && pages.length > 0 ? clampPageRange(pageRange, pages.length) : undefined;
+
+      const scannedPages = pages.filter(page =>
+        !page.text.trim() && (!range || (page.pageNumber >= range.start && page.pageNumber <= range.end))
+      );
+      const warnings: string[] = [];
+      if (ocrDataDir && scannedPages.length > 0) {
+        const images = await renderPdfPages(buffer, scannedPages.map(page => page.pageNumber));
+        for (const page of scannedPages) {
+          const image = images.get(page.pageNumber);
+          if (!image) continue;
+          const ocr = await recognizeImage(image, ocrDataDir);
+          page.text = ocr.text;
+          page.ocrConfidence = ocr.confidence;
+        }
+      } else if (scannedPages.length > 0) {
+        warnings.push(`第 ${scannedPages.map(page => page.pageNumber).join('、')} 页没有文本层`);
+      }
+
+      const text = formatPdfPages(pages, range);
+      if (!text.trim()) {
+        throw new Error(range ? `第 ${range.start}-${range.end} 页内容为空或无法提取文本` : 'PDF 内容为空或无法提取文本');
+      }
+      return textDocument(text, { pages: getPageInfos(pages), warnings });
+    } catch (error: any) {
+      throw new Error(`处理 PDF 文档失败: ${error.message || error}`);
+    }
+  },
+};
+
+/**
+ * PowerPoint 演示文稿 (.pptx)：每张幻灯片输出为一个 Markdown 小节
+ */
+export const pptxExtractor: FileExtractor = {
+  name: 'PowerPoint 演示文稿',
+  extensions: ['pptx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+  async extract(buffer) {
+    try {
+      const markdown = await pptxToMarkdown(buffer);
+      // 只有 "## Slide N" 标题而没有任何正文时视为空文档
+      if (!markdown.replace(/^## Slide \d+$/gm, '').trim()) {
+        throw new Error('演示文稿内容为空或无法提取文本');
+      }
+      return textDocument(markdown, { markdown });
+    } catch (error: any) {
+      throw new Error(`处理 PowerPoint 文档失败: ${error.message || error}`);
+    }
+  },
+};
+
+/**
+ * Excel 工作簿 (.xlsx)：每个工作表输出为 Markdown 表格
+ */
+export const xlsxExtractor: FileExtractor = {
+  name: '电子表格',
+  extensions: ['xlsx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+  async extract(buffer) {
+    try {
+      const markdown = sheetsToMarkdown(await parseXlsx(buffer));
+      if (!markdown.trim()) {
+        throw new Error('工作簿内容为空');
+      }
+      return textDocument(markdown, { markdown });
+    } catch (error: any) {
+      throw new Error(`处理 Excel 表格失败: ${error.message || error}`);
+    }
+  },
+};
+
+/**
+ * CSV 文件：自动检测编码和分隔符，输出为 Markdown 表格
+ */
+export const csvExtractor: FileExtractor = {
+  name: '电子表格',
+  extensions: ['csv'],
+  mimeTypes: ['text/csv'],
+  async extract(buffer, filePath, options) {
+    const decoded = decodeText(buffer, options.encoding);
+    const markdown = sheetsToMarkdown([csvToSheet(decoded.text, path.basename(filePath, path.extname(filePath)))]);
+    if (!markdown.trim()) {
+      throw new Error('CSV 文件内容为空');
+    }
+    return textDocument(markdown, { markdown, encoding: decoded.encoding });
+  },
+};
+
+/**
+ * 图片：通过 OCR 识别文字
+ */
+export const imageExtractor: FileExtractor = {
+  name: '图片（OCR 识别）',
+  extensions: ['png', 'jpg', 'jpeg', 'bmp', 'webp'],
+  mimeTypes: ['image/png', 'image/jpeg', 'image/bmp', 'image/webp'],
+  async extract(buffer, _filePath, options) {
+    if (!options.ocrDataDir) {
+      throw new Error('未指定 OCR 语言数据目录');
+    }
+    try {
+      const ocr = await recognizeImage(buffer, options.ocrDataDir);
+      if (!ocr.text) {
+        throw new Error('未识别到文字');
+      }
+      return textDocument(ocr.text, {
+        pages: [{ pageNumber: 1, charCount: ocr.text.length, hasText: true, ocrConfidence: ocr.confidence }],
+      });
+    } catch (error: any) {
+      throw new Error(`识别图片文字失败: ${error.message || error}`);
+    }
+  },
+};
+
+/**
+ * Markdown 文件
+ */
+export const markdownExtractor: FileExtractor = {
+  name: 'Markdown',
+  extensions: ['md'],
+  mimeTypes: ['text/markdown'],
+  importable: true,
+  async extract(buffer, _filePath, options) {
+    const decoded = decodeText(buffer, options.encoding);
+    if (!decoded.text.trim()) {
+      throw new Error('文本文件内容为空');
+    }
+    return textDocument(decoded.text, { markdown: decoded.text, encoding: decoded.encoding });
+  },
+};
+
+/**
+ * 纯文本文件
+ */
+export const textExtractor: FileExtractor = {
+  name: '文本文件',
+  extensions: ['txt'],
+  mimeTypes: ['text/plain'],
+  async extract(buffer, _filePath, options) {
+    const decoded = decodeText(buffer, options.encoding);
+    if (!decoded.text.trim()) {
+      throw new Error('文本文件内容为空');
+    }
+    return textDocument(decoded.text, { encoding: decoded.encoding });
+  },
+};
+
+/**
+ * 源代码文件：输出为带语言标记的代码块
+ */
+export const sourceCodeExtractor: FileExtractor = {
+  name: '源代码',
+  extensions: Object.keys(LANGUAGE_BY_EXTENSION),
+  mimeTypes: ['text/x-python', 'text/x-java-source', 'text/x-c', 'text/x-c++src', 'text/javascript', 'application/typescript'],
+  async extract(buffer, filePath, options) {
+    const decoded = decodeText(buffer, options.encoding);
+    if (!decoded.text.trim()) {
+      throw new Error('源代码文件内容为空');
+    }
+    const ext = path.extname(filePath).replace(/^\./, '').toLowerCase();
+    const markdown = formatCodeBlock(decoded.text, LANGUAGE_BY_EXTENSION[ext] || '');
+    return textDocument(markdown, { markdown, title: path.basename(filePath), encoding: decoded.encoding });
+  },
+};
+
+/**
+ * Jupyter Notebook (.ipynb)：逐单元格转换为 Markdown、代码块和文本输出
+ */
+export const notebookExtractor: FileExtractor = {
+  name: 'Jupyter Notebook',
+  extensions: ['ipynb'],
+  mimeTypes: ['application/x-ipynb+json'],
+  async extract(buffer) {
+    try {
+      // nbformat 规定 Notebook 使用 UTF-8 编码
+      const markdown = notebookToMarkdown(buffer.toString('utf-8'));
+      if (!markdown.trim()) {
+        throw new Error('Notebook 内容为空');
+      }
+      return textDocument(markdown, { markdown });
+    } catch (error: any) {
+      throw new Error(`处理 Jupyter Notebook 失败: ${error.message || error}`);
+    }
+  },
+};
+
+// 内置提取器，顺序即打开文件对话框中筛选项的顺序
+export const builtinExtractors: FileExtractor[] = [
+  docExtractor,
+  docxExtractor,
+  pdfExtractor,
+  pptxExtractor,
+  xlsxExtractor,
+  csvExtractor,
+  imageExtractor,
+  markdownExtractor,
+  textExtractor,
+  sourceCodeExtractor,
+  notebookExtractor,
+];
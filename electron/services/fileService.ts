@@ -1,101 +1,148 @@
 /**
  * 文件读取服务
- * 负责处理各种格式文件的读取和文本提取
+ * 维护文件提取器注册表，根据扩展名选择提取器处理文件
+ * 打开文件对话框的筛选项和不支持格式的错误信息都由注册表生成
  */
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import mammoth from 'mammoth';
-import pdfParse from 'pdf-parse';
-import WordExtractor from 'word-extractor';
+import { FileExtractor, ExtractOptions, ExtractedDocument } from '../types/index';
+import { builtinExtractors } from './extractors';
 
-const wordExtractor = new WordExtractor();
+// 文件对话框筛选项（与 Electron FileFilter 结构一致）
+export interface FileDialogFilter {
+  name: string;
+  extensions: string[];
+}
+
+// 返回给渲染进程的支持格式信息
+export interface FileFormatInfo {
+  name: string;
+  extensions: string[];
+  mimeTypes: string[];
+  importable: boolean;
+}
+
+const extractors: FileExtractor[] = [];
 
 /**
- * 处理文件并提取文本内容
- * @param filePath 文件路径
- * @returns 提取的文本内容
+ * 注册文件提取器
+ * 后注册的提取器会覆盖先注册的同扩展名提取器
  */
-export async function processFile(filePath: string): Promise<string> {
-  try {
-    // 检查文件是否存在
-    await fs.access(filePath);
-    
-    const ext = path.extname(filePath).toLowerCase();
-    const buffer = await fs.readFile(filePath);
+export function registerExtractor(extractor: FileExtractor): void {
+  const extensions = extractor.extensions.map(ext => ext.toLowerCase());
+  for (const existing of extractors) {
+    existing.extensions = existing.extensions.filter(ext => !extensions.includes(ext));
+  }
+  extractors.push({ ...extractor, extensions });
+}
 
-    if (buffer.length === 0) {
-      throw new Error('文件为空');
-    }
+builtinExtractors.forEach(registerExtractor);
 
-    switch (ext) {
-      case '.doc':
-        return await processDoc(filePath);
-      case '.docx':
-        return await processDocx(buffer);
-      case '.pdf':
-        return await processPdf(buffer);
-      case '.txt':
-        const text = buffer.toString('utf-8');
-        if (!text.trim()) {
-          throw new Error('文本文件内容为空');
-        }
-        return text;
-      default:
-        throw new Error(`不支持的文件格式: ${ext}。支持格式: .doc, .docx, .pdf, .txt`);
-    }
-  } catch (error: any) {
-    if (error.code === 'ENOENT') {
-      throw new Error('文件不存在');
-    }
-    throw error;
-  }
+// 有可用扩展名的提取器
+function getActiveExtractors(): FileExtractor[] {
+  return extractors.filter(extractor => extractor.extensions.length > 0);
 }
 
 /**
- * 处理旧版 Word 文档 (.doc)
+ * 根据扩展名查找提取器（扩展名可带点，不区分大小写）
  */
-async function processDoc(filePath: string): Promise<string> {
-  try {
-    const extracted = await wordExtractor.extract(filePath);
-    const text = extracted.getBody() || '';
-    if (!text.trim()) {
-      throw new Error('文档内容为空或无法提取文本');
-    }
-    return text;
-  } catch (error: any) {
-    throw new Error(`处理 Word 文档(.doc)失败: ${error.message || error}`);
+export function getExtractor(ext: string): FileExtractor | undefined {
+  const normalized = ext.replace(/^\./, '').toLowerCase();
+  return getActiveExtractors().find(extractor => extractor.extensions.includes(normalized));
+}
+
+/**
+ * 所有支持的扩展名（不含点）
+ */
+export function getSupportedExtensions(filter?: (extractor: FileExtractor) => boolean): string[] {
+  return getActiveExtractors()
+    .filter(extractor => !filter || filter(extractor))
+    .flatMap(extractor => extractor.extensions);
+}
+
+/**
+ * 生成打开文件对话框的筛选项
+ * 第一项包含所有支持的格式，其后同名提取器合并为一项
+ * @param allName 第一项（全部格式）的名称
+ * @param filter 只包含满足条件的提取器
+ */
+export function getOpenDialogFilters(
+  allName: string,
+  filter?: (extractor: FileExtractor) => boolean
+): FileDialogFilter[] {
+  const groups = new Map<string, string[]>();
+  for (const extractor of getActiveExtractors()) {
+    if (filter && !filter(extractor)) continue;
+    groups.set(extractor.name, [...(groups.get(extractor.name) || []), ...extractor.extensions]);
   }
+
+  return [
+    { name: allName, extensions: getSupportedExtensions(filter) },
+    ...Array.from(groups, ([name, extensions]) => ({ name, extensions })),
+  ];
 }
 
 /**
- * 处理新版 Word 文档 (.docx)
+ * 所有支持格式的信息（同名提取器合并）
  */
-async function processDocx(buffer: Buffer): Promise<string> {
-  try {
-    const result = await mammoth.extractRawText({ buffer });
-    const text = result.value || '';
-    if (!text.trim()) {
-      throw new Error('文档内容为空或无法提取文本');
+export function getFileFormats(): FileFormatInfo[] {
+  const formats = new Map<string, FileFormatInfo>();
+  for (const extractor of getActiveExtractors()) {
+    const format = formats.get(extractor.name)
+      || { name: extractor.name, extensions: [], mimeTypes: [], importable: false };
+    format.extensions.push(...extractor.extensions);
+    format.mimeTypes.push(...extractor.mimeTypes);
+    format.importable = format.importable || !!extractor.importable;
+    formats.set(extractor.name, format);
+  }
+  return Array.from(formats.values());
+}
+
+// 取 Markdown 中第一个标题作为文档标题（忽略幻灯片编号标题）
+function getMarkdownTitle(markdown: string): string | undefined {
+  for (const match of markdown.matchAll(/^#{1,6}\s+(.+?)\s*#*$/gm)) {
+    if (!/^Slide \d+$/.test(match[1])) {
+      return match[1];
     }
-    return text;
-  } catch (error: any) {
-    throw new Error(`处理 Word 文档失败: ${error.message || error}`);
   }
+  return undefined;
 }
 
 /**
- * 处理 PDF 文档
+ * 处理文件并提取内容
+ * @param filePath 文件路径
+ * @param options 提取选项
  */
-async function processPdf(buffer: Buffer): Promise<string> {
+export async function processFile(filePath: string, options: ExtractOptions = {}): Promise<ExtractedDocument> {
   try {
-    const data = await pdfParse(buffer);
-    const text = data.text || '';
-    if (!text.trim()) {
-      throw new Error('PDF 内容为空或无法提取文本');
+    // 检查文件是否存在
+    await fs.access(filePath);
+
+    const ext = path.extname(filePath).toLowerCase();
+    const extractor = getExtractor(ext);
+    if (!extractor) {
+      const supported = getSupportedExtensions().map(item => `.${item}`).join(', ');
+      throw new Error(`不支持的文件格式: ${ext || '(无扩展名)'}。支持格式: ${supported}`);
+    }
+
+    const buffer = await fs.readFile(filePath);
+    if (buffer.length === 0) {
+      throw new Error('文件为空');
     }
-    return text;
+
+    const document = await extractor.extract(buffer, filePath, options);
+    if (document.warnings.length > 0) {
+      console.warn(`${extractor.name}提取警告:`, document.warnings);
+    }
+    return {
+      ...document,
+      title: document.title || getMarkdownTitle(document.markdown || '') || path.basename(filePath, ext),
+    };
   } catch (error: any) {
-    throw new Error(`处理 PDF 文档失败: ${error.message || error}`);
+    if (error.code === 'ENOENT') {
+      throw new Error('文件不存在');
+    }
+    throw error;
   }
 }
@@ -1,17 +1,116 @@
-import axios from 'axios';
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { splitIntoChunks } from '../utils/textChunker';
+import { readSseData } from '../utils/sse';
+import { JsonSchema, validateJson } from '../utils/jsonSchema';
+import { estimateTokens, hasExactTokenizer } from '../utils/tokenCounter';
+import { PromptSet, PromptStep, DEFAULT_PROMPTS, renderPrompt } from './promptTemplates';
+import { UsageCost, getModelInfo, calculateCost } from './modelInfo';
+import { ResponseCacheSettings, ResponseCacheOptions, getCacheKey, readCachedResponse, writeCachedResponse } from './responseCache';
 
 export interface LLMConfig {
-  provider: 'qwen' | 'openai' | 'custom';
+  provider: 'qwen' | 'openai' | 'custom' | 'local';
   apiKey?: string;
-  apiUrl?: string;
+  apiUrl?: string;       // 自定义 API 地址（OpenAI 兼容模式下为 Base URL）；本地模型时为服务地址
   model?: string;
+  customMode?: 'openai' | 'raw';   // 自定义 API 的接口格式，未设置时为原始模式 { prompt, model }
+  generation?: GenerationParams;   // 生成参数，所有步骤通用
+  stepGeneration?: Partial<Record<GenerationStep, GenerationParams>>;   // 按步骤覆盖的生成参数
+  cache?: ResponseCacheSettings;   // 响应缓存设置
 }
 
+// 生成参数，未设置的项使用默认值
+export interface GenerationParams {
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+}
+
+// 可单独设置生成参数的步骤
+export type GenerationStep = 'format' | 'questions' | 'final' | 'edit' | 'chat';
+
+export const DEFAULT_GENERATION_PARAMS: GenerationParams = {
+  temperature: 0.7,
+  maxTokens: 2000,
+};
+
+// 请求超时（毫秒）：连接上没有任何数据的最长时间，流式请求在持续收到数据时不会超时
+const REQUEST_TIMEOUT_MS = 180000;
+// 本地模型在 CPU 上生成较慢，非流式请求需要更长的等待时间
+const LOCAL_REQUEST_TIMEOUT_MS = 600000;
+
+// 失败重试：最多重试次数和指数退避的初始、最大等待时间
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60000;
+
+// 可以重试的 HTTP 状态码和网络错误
+const RETRYABLE_STATUS = [408, 409, 425, 429, 500, 502, 503, 504];
+const RETRYABLE_ERROR_CODES = ['ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ERR_NETWORK'];
+
+// 同时进行的模型请求数上限（所有请求共享），避免触发提供商的频率限制
+const MAX_CONCURRENT_REQUESTS = 2;
+
+// 输出因长度限制被截断时，最多自动续写的次数
+const MAX_CONTINUATIONS = 5;
+
+const CONTINUATION_PROMPT = '你的上一条回复因长度限制被截断了。请从中断处继续输出，不要重复已输出的内容，也不要添加任何说明。';
+
+// 每条消息的角色标记等额外占用的 token 数
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// 对话消息
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// 单次模型调用的结果
+interface LLMCompletion {
+  content: string;
+  finishReason?: string;   // 'length' 表示输出达到长度上限被截断
+  usage?: TokenUsage;      // 提供商返回的实际用量
+}
+
+// Token 用量
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  estimated?: boolean;     // 提供商没有返回用量时为按文本估算的值
+}
+
+// 本地模型服务默认地址（Ollama）
+export const DEFAULT_LOCAL_URL = 'http://localhost:11434';
+
 // 处理步骤结果接口
 export interface ProcessStepResult {
   step: 'format' | 'questions' | 'final';
   content: string;
   timestamp: string;
+  chunkCount?: number;     // 分块处理时的分块数
+  elapsedMs?: number;      // 步骤耗时（毫秒）
+  questions?: QuestionAnswer[];   // 步骤2 每道题的解答记录
+  usage?: TokenUsage;      // 本步骤所有请求的实际用量
+  cacheHits?: number;      // 本步骤使用缓存响应的请求数
+}
+
+// 单道题目的解答记录，可单独重新生成
+export interface QuestionAnswer {
+  id: number;
+  question: string;
+  type?: string;
+  answer: string;
+  keyPoints?: string[];
+  chunkIndex?: number;     // 题目所在的分块（从 1 开始），解答时只发送该分块的附件，未知时发送全部附件
+  model?: string;          // 生成答案使用的模型，未设置时为提供商的默认模型
+  error?: string;          // 解答失败的原因，可单独重新生成
+}
+
+// 处理步骤进度事件：步骤开始和完成时各发送一次
+export interface ProcessStepEvent {
+  step: ProcessStepResult['step'];
+  status: 'start' | 'complete';
+  elapsedMs: number;            // 开始事件为 0
+  result?: ProcessStepResult;   // 完成事件附带步骤结果
 }
 
 // 完整处理结果接口
@@ -19,154 +118,347 @@ export interface HomeworkProcessResult {
   formatTemplate: ProcessStepResult;
   questionsAnswer: ProcessStepResult;
   finalResult: ProcessStepResult;
+  chunkCount: number;      // 附件内容被切分的块数，无附件时为 0
+  usage?: TokenUsage;      // 本次处理所有请求的实际用量（不含复用的步骤）
+  cost?: UsageCost;        // 按参考价格计算的费用，模型价格未知时为空
+  cacheHits?: number;      // 使用缓存响应的请求数
+}
+
+// 流式输出回调：每收到一段增量文本调用一次
+export type TokenCallback = (token: string) => void;
+
+// LLM 调用选项
+export interface LLMCallOptions {
+  onToken?: TokenCallback;   // 传入时使用流式输出
+  signal?: AbortSignal;      // 取消请求
+  step?: GenerationStep;     // 所属步骤，用于选择生成参数
+  onRetry?: (info: RetryInfo) => void;   // 请求失败并准备重试时回调
+  jsonMode?: boolean;        // 要求模型只输出 JSON（提供商支持时启用 JSON 模式）
+  prompts?: PromptSet;       // 用户选用的提示词模版，未设置的步骤使用默认提示词
+  onUsage?: (usage: TokenUsage, step?: GenerationStep) => void;   // 每次请求完成后回调用量
+  cache?: ResponseCacheOptions;   // 传入时相同的请求直接返回缓存的响应（只用于 CACHEABLE_STEPS 中的步骤）
+  bypassCache?: boolean;          // 不读取缓存（重新生成），新的响应仍会写入缓存
+  onCacheHit?: (step?: GenerationStep) => void;   // 使用缓存的响应时回调
+  isCacheable?: (content: string) => boolean;     // 返回 false 的响应不写入缓存，已缓存的也不再使用
+  onTrace?: (trace: LLMCallTrace) => void;        // 每次调用结束（成功或失败）后回调调用记录
+}
+
+// 单次模型调用的记录，用于请求记录查看器
+export interface LLMCallTrace {
+  step?: GenerationStep;
+  provider: LLMConfig['provider'];
+  model: string;
+  params: GenerationParams;
+  jsonMode?: boolean;
+  messages: ChatMessage[];   // 发送的消息（不含续写请求）
+  response?: string;         // 完整响应（含续写的内容）
+  error?: string;
+  startedAt: string;
+  latencyMs: number;         // 包含排队、重试和续写的总耗时
+  retries: RetryInfo[];
+  usage?: TokenUsage;
+  cached?: boolean;          // 使用了缓存的响应
+}
+
+// 重试信息
+export interface RetryInfo {
+  attempt: number;       // 第几次重试（从 1 开始）
+  maxRetries: number;
+  delayMs: number;       // 距下次重试的等待时间
+  reason: string;        // 失败原因
+  step?: GenerationStep; // 重试的请求所属步骤
+}
+
+// 完整作业处理流程的选项
+export interface HomeworkProcessOptions extends LLMCallOptions {
+  onStepStart?: (step: ProcessStepResult['step']) => void;
+  completedSteps?: ProcessStepResult[];   // 上次失败前已完成的步骤，直接复用以便从失败的步骤继续
+}
+
+// 请求被取消时的错误信息
+export const REQUEST_CANCELLED_MESSAGE = '请求已取消';
+
+// 请求已取消时中止后续步骤
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new Error(REQUEST_CANCELLED_MESSAGE);
+  }
+}
+
+// 附件：每个附件作为独立来源传给 LLM
+export interface Attachment {
+  name: string;
+  type: string;      // 文件扩展名（不含点），如 pdf、docx
+  content: string;
+}
+
+// 附件片段：附件内容过长时被切分到不同分块中
+export interface AttachmentPart extends Attachment {
+  index: number;                             // 在附件列表中的序号（从 1 开始）
+  part?: { index: number; total: number };   // 附件被切分时的片段序号
+}
+
+// 分块信息：当前是第几块、共几块
+export interface ChunkInfo {
+  index: number;
+  total: number;
+}
+
+// 每个分块中附件内容的长度上限
+const MAX_CHUNK_LENGTH = 10000;
+
+// 过滤掉没有内容的附件
+function getNonEmptyAttachments(attachments: Attachment[]): Attachment[] {
+  return attachments.filter(attachment => attachment.content && attachment.content.trim());
+}
+
+/**
+ * 将附件切分并装入多个分块
+ * 超长附件在结构边界处切分，较短的附件或片段尽量合并到同一块中
+ */
+function chunkAttachments(attachments: Attachment[], maxLength: number): AttachmentPart[][] {
+  const chunks: AttachmentPart[][] = [];
+  let current: AttachmentPart[] = [];
+  let currentLength = 0;
+
+  attachments.forEach((attachment, i) => {
+    const pieces = splitIntoChunks(attachment.content, maxLength);
+    pieces.forEach((content, j) => {
+      if (currentLength + content.length > maxLength && current.length > 0) {
+        chunks.push(current);
+        current = [];
+        currentLength = 0;
+      }
+      current.push({
+        ...attachment,
+        content,
+        index: i + 1,
+        part: pieces.length > 1 ? { index: j + 1, total: pieces.length } : undefined,
+      });
+      currentLength += content.length;
+    });
+  });
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+// 将附件格式化为带编号和文件名标记的独立来源
+function formatAttachments(attachments: AttachmentPart[]): string {
+  return attachments
+    .map(attachment => {
+      const part = attachment.part ? `，第 ${attachment.part.index}/${attachment.part.total} 部分` : '';
+      const label = `附件 ${attachment.index}：${attachment.name}（${attachment.type.toUpperCase()}${part}）`;
+      return `<<<${label}>>>\n${attachment.content.trim()}\n<<<附件 ${attachment.index} 结束>>>`;
+    })
+    .join('\n\n');
+}
+
+// 按步骤取提示词模版（用户模版优先）并填入变量
+function buildPrompt(step: PromptStep, variables: Record<string, string | number>, options: LLMCallOptions): string {
+  return renderPrompt(options.prompts?.[step] || DEFAULT_PROMPTS[step], variables);
+}
+
+// 分块处理时附加在提示词中的说明
+function formatChunkNote(chunk?: ChunkInfo): string {
+  if (!chunk || chunk.total <= 1) return '';
+  return `\n【说明】
+附件内容较长，已切分为 ${chunk.total} 个部分分别处理，以下是第 ${chunk.index} 部分。只需处理本部分中出现的内容，其他部分会单独处理后合并。
+`;
 }
 
 // 步骤1：提取作业格式要求
 export async function extractFormatTemplate(
   userPrompt: string,
-  fileContent: string,
-  config: LLMConfig
+  attachments: AttachmentPart[],
+  config: LLMConfig,
+  chunk?: ChunkInfo,
+  options: LLMCallOptions = {}
 ): Promise<ProcessStepResult> {
-  const maxContentLength = 10000;
-  const truncatedContent = fileContent.length > maxContentLength 
-    ? fileContent.substring(0, maxContentLength) + '\n\n[内容已截断...]'
-    : fileContent;
-
-  const formatExtractionPrompt = `你是一个作业格式分析专家。请仔细分析以下文档内容和用户输入，提取出作业的格式要求。
-
-【用户输入的作业要求】
-${userPrompt}
-
-【文档内容】
-${truncatedContent}
-
-【任务要求】
-请提取并输出作业的格式模版，包括但不限于：
-1. 作业标题格式（如：标题层级、编号方式）
-2. 整体结构要求（如：需要哪些部分，顺序如何）
-3. 排版要求（如：字体、字号、段落格式等，如有提及）
-4. 特殊格式要求（如：封面、目录、参考文献格式等）
-5. 页面布局要求（如：页边距、行距等，如有提及）
-
-请以 JSON 格式输出格式模版，格式如下：
-\`\`\`json
-{
-  "title": "作业标题格式描述",
-  "structure": ["结构部分1", "结构部分2", ...],
-  "headingStyle": "标题层级描述",
-  "numberingStyle": "编号方式描述",
-  "specialRequirements": ["特殊要求1", "特殊要求2", ...],
-  "layoutRequirements": "页面布局要求",
-  "otherFormats": "其他格式说明"
-}
-\`\`\`
-
-如果某些信息在文档中没有明确提及，请根据常规学术作业格式进行合理推断并标注"(推断)"。`;
-
-  const result = await callLLMInternal(formatExtractionPrompt, config);
+  const attachmentContent = formatAttachments(attachments);
+
+  const formatExtractionPrompt = buildPrompt('format', {
+    userPrompt,
+    fileContent: attachmentContent,
+    chunkNote: formatChunkNote(chunk),
+  }, options);
+
+  const result = await callStructured(formatExtractionPrompt, FORMAT_TEMPLATE_SCHEMA, config, { ...options, step: 'format' });
   
   return {
     step: 'format',
-    content: result,
+    content: toJsonBlock(result),
     timestamp: new Date().toISOString()
   };
 }
 
-// 步骤2：提取作业题目并完成答案
-export async function extractAndAnswerQuestions(
+// 步骤2（阶段1）：提取作业题目
+export async function extractQuestions(
   userPrompt: string,
-  fileContent: string,
-  config: LLMConfig
+  attachments: AttachmentPart[],
+  config: LLMConfig,
+  chunk?: ChunkInfo,
+  options: LLMCallOptions = {}
 ): Promise<ProcessStepResult> {
-  const maxContentLength = 10000;
-  const truncatedContent = fileContent.length > maxContentLength 
-    ? fileContent.substring(0, maxContentLength) + '\n\n[内容已截断...]'
-    : fileContent;
-
-  const questionExtractionPrompt = `你是一个专业的作业解答助手。请仔细分析以下文档内容和用户输入，提取出所有作业题目并逐一完成解答。
-
-【用户输入的作业要求】
-${userPrompt}
-
-【文档内容】
-${truncatedContent}
-
-【任务要求】
-1. 首先识别并列出文档中的所有题目/问题/任务
-2. 然后针对每个题目给出详细、专业、准确的答案
-
-请按以下 JSON 格式输出：
-\`\`\`json
-{
-  "questions": [
-    {
-      "id": 1,
-      "question": "题目1原文",
-      "type": "题目类型（如：简答题、论述题、计算题、分析题等）",
-      "answer": "详细答案",
-      "keyPoints": ["要点1", "要点2", ...]
-    },
-    {
-      "id": 2,
-      "question": "题目2原文",
-      "type": "题目类型",
-      "answer": "详细答案",
-      "keyPoints": ["要点1", "要点2", ...]
-    }
-  ],
-  "summary": "作业整体概述"
-}
-\`\`\`
+  const attachmentContent = formatAttachments(attachments);
 
-【注意事项】
-- 答案应该专业、准确、有深度
-- 适当引用相关理论、概念或数据支持
-- 如有计算题，需展示计算过程
-- 保持逻辑清晰，条理分明`;
+  const questionExtractionPrompt = buildPrompt('questions', {
+    userPrompt,
+    fileContent: attachmentContent,
+    chunkNote: formatChunkNote(chunk),
+  }, options);
 
-  const result = await callLLMInternal(questionExtractionPrompt, config);
+  const result = await callStructured(questionExtractionPrompt, QUESTION_LIST_SCHEMA, config, { ...options, step: 'questions' });
   
   return {
     step: 'questions',
-    content: result,
+    content: toJsonBlock(result),
     timestamp: new Date().toISOString()
   };
 }
 
-// 步骤3：整合格式和答案生成最终 Markdown
-export async function generateFinalMarkdown(
-  formatTemplate: string,
-  questionsAnswer: string,
+// 步骤2（阶段2）：单独解答一道题目，只发送题目所在分块的附件
+export async function answerQuestion(
+  question: QuestionAnswer,
   userPrompt: string,
-  config: LLMConfig
+  attachments: AttachmentPart[],
+  config: LLMConfig,
+  options: LLMCallOptions = {}
+): Promise<QuestionAnswer> {
+  const attachmentContent = formatAttachments(attachments);
+
+  const answerPrompt = buildPrompt('answer', {
+    userPrompt,
+    fileContent: attachmentContent,
+    questionId: question.id,
+    questionType: question.type || '未注明类型',
+    question: question.question,
+  }, options);
+
+  const result = await callStructured(answerPrompt, ANSWER_SCHEMA, config, { ...options, step: 'questions' });
+
+  return {
+    ...question,
+    answer: result.answer,
+    keyPoints: result.keyPoints || [],
+    model: config.model || undefined,
+    error: undefined
+  };
+}
+
+// 解答题目时发送的附件：题目所在分块的附件，分块未知时发送全部附件
+function getQuestionSources(question: QuestionAnswer, chunks: AttachmentPart[][]): AttachmentPart[] {
+  const chunk = question.chunkIndex ? chunks[question.chunkIndex - 1] : undefined;
+  return chunk || chunks.flat();
+}
+
+// 题目与答案整理为步骤3 使用的 JSON
+function formatQuestionAnswers(questions: QuestionAnswer[], summary?: string): string {
+  return toJsonBlock({
+    questions: questions.map(({ id, question, type, answer, keyPoints }) => ({ id, question, type, answer, keyPoints })),
+    summary: summary || '',
+  });
+}
+
+/**
+ * 步骤2：先提取题目，再为每道题单独发送请求解答
+ * 各题的解答同时进行，并发数受全局请求上限约束
+ * 部分题目解答失败时保留其他题目的答案，失败的题目记录错误以便单独重新生成；全部失败时步骤失败
+ */
+async function runQuestionsStep(
+  prompt: string,
+  chunks: AttachmentPart[][],
+  config: LLMConfig,
+  options: LLMCallOptions
 ): Promise<ProcessStepResult> {
-  const integrationPrompt = `你是一个专业的文档排版专家。请根据以下作业格式模版和题目答案，生成一份格式规范、内容完整的作业文档。
+  const extracted = await runChunkedStep(
+    'questions',
+    chunks,
+    config,
+    (chunkSources, chunk) => extractQuestions(prompt, chunkSources, config, chunk, options),
+    mergeQuestionLists,
+    options
+  );
 
-【作业格式模版】
-${formatTemplate}
+  const list = parseJsonResponse(extracted.content);
+  if (!list || !Array.isArray(list.questions)) {
+    throw new Error('题目列表解析失败，请重试');
+  }
+  const questions: QuestionAnswer[] = list.questions.map((question: any, i: number) => ({
+    id: i + 1,
+    question: question.question,
+    type: question.type,
+    answer: '',
+    chunkIndex: question.chunkIndex,
+  }));
+  // 没有识别到题目时（如附件只是参考资料），把用户输入的要求作为一道题，结合全部附件解答
+  if (questions.length === 0) {
+    questions.push({ id: 1, question: prompt, answer: '' });
+  }
 
-【题目与答案】
-${questionsAnswer}
+  const settled = await Promise.allSettled(questions.map(question =>
+    answerQuestion(question, prompt, getQuestionSources(question, chunks), config, options)
+  ));
+  throwIfAborted(options.signal);
 
-【用户原始要求】
-${userPrompt}
+  const answered: QuestionAnswer[] = settled.map((result, i) => result.status === 'fulfilled'
+    ? result.value
+    : { ...questions[i], error: result.reason?.message || String(result.reason) });
+  if (answered.every(question => question.error)) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
 
-【任务要求】
-请将以上内容整合，生成一份完整的 Markdown 格式作业文档。要求：
-1. 严格按照格式模版的要求进行排版
-2. 确保所有题目和答案都被包含
-3. 使用规范的 Markdown 语法
-4. 添加适当的标题层级和格式
-5. 保持内容的逻辑连贯性
+  return {
+    step: 'questions',
+    content: formatQuestionAnswers(answered, list.summary),
+    timestamp: new Date().toISOString(),
+    chunkCount: extracted.chunkCount,
+    questions: answered
+  };
+}
+
+/**
+ * 重新生成单道题目的答案（可使用不同的模型），返回更新后的步骤2 结果
+ * 之后可复用步骤1 和更新后的步骤2，只重新生成最终文档
+ */
+export async function regenerateAnswer(
+  questionsStep: ProcessStepResult,
+  questionId: number,
+  prompt: string,
+  attachments: Attachment[],
+  config: LLMConfig,
+  options: LLMCallOptions = {}
+): Promise<ProcessStepResult> {
+  const question = questionsStep.questions?.find(item => item.id === questionId);
+  if (!question) {
+    throw new Error(`没有找到第 ${questionId} 题`);
+  }
 
-【输出格式】
-直接输出完整的 Markdown 文档内容，不需要代码块包裹。文档应该：
-- 有清晰的标题和层级结构
-- 每道题目和答案排版整齐
-- 如有需要，包含封面信息、目录等
-- 格式美观，便于后续转换为 Word 或 PDF`;
+  const chunks = chunkAttachments(getNonEmptyAttachments(attachments || []), MAX_CHUNK_LENGTH);
+  const answered = await answerQuestion(question, prompt, getQuestionSources(question, chunks), config, options);
 
-  const result = await callLLMInternal(integrationPrompt, config);
+  const questions = questionsStep.questions!.map(item => item.id === questionId ? answered : item);
+  const summary = parseJsonResponse(questionsStep.content)?.summary;
+  return {
+    ...questionsStep,
+    content: formatQuestionAnswers(questions, summary),
+    timestamp: new Date().toISOString(),
+    questions
+  };
+}
+
+// 步骤3：整合格式和答案生成最终 Markdown
+export async function generateFinalMarkdown(
+  formatTemplate: string,
+  questionsAnswer: string,
+  userPrompt: string,
+  config: LLMConfig,
+  options: LLMCallOptions = {}
+): Promise<ProcessStepResult> {
+  const integrationPrompt = buildPrompt('final', { formatTemplate, questionsAnswer, userPrompt }, options);
+
+  const result = await callLLMInternal(integrationPrompt, config, { ...options, step: 'final' });
   
   return {
     step: 'final',
@@ -175,30 +467,313 @@ ${userPrompt}
   };
 }
 
-// 直接生成模式：无需上传文件，直接根据 prompt 生成内容
-async function directGeneration(
+// ==================== 结构化输出 ====================
+
+// 步骤1 格式模版的结构
+const FORMAT_TEMPLATE_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['title', 'structure'],
+  properties: {
+    title: { type: 'string' },
+    structure: { type: 'array', items: { type: 'string' } },
+    headingStyle: { type: 'string' },
+    numberingStyle: { type: 'string' },
+    specialRequirements: { type: 'array', items: { type: 'string' } },
+    layoutRequirements: { type: 'string' },
+    otherFormats: { type: 'string' },
+  },
+};
+
+// 步骤2 题目列表的结构
+const QUESTION_LIST_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['questions'],
+  properties: {
+    questions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['question'],
+        properties: {
+          id: { type: ['integer', 'string'] },
+          question: { type: 'string', minLength: 1 },
+          type: { type: 'string' },
+        },
+      },
+    },
+    summary: { type: 'string' },
+  },
+};
+
+// 步骤2 单道题目答案的结构
+const ANSWER_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['answer'],
+  properties: {
+    answer: { type: 'string', minLength: 1 },
+    keyPoints: { type: 'array', items: { type: 'string' } },
+  },
+};
+
+// Edit 模式修改列表的结构
+const EDIT_RESULT_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['changes'],
+  properties: {
+    changes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['searchText', 'replaceText'],
+        properties: {
+          searchText: { type: 'string', minLength: 1 },
+          replaceText: { type: 'string' },
+          description: { type: 'string' },
+        },
+      },
+    },
+    summary: { type: 'string' },
+  },
+};
+
+// 输出不符合结构时最多请求模型修正的次数
+const MAX_REPAIR_ATTEMPTS = 2;
+
+function buildRepairPrompt(errors: string[], schema: JsonSchema): string {
+  return `你上一条回复的 JSON 不符合要求，存在以下问题：
+${errors.map(error => `- ${error}`).join('\n')}
+
+请修正这些问题，按以下 JSON Schema 重新输出完整的 JSON（保留原有内容，只修正格式），不要输出任何其他内容：
+${JSON.stringify(schema, null, 2)}`;
+}
+
+// 解析并校验模型输出，返回解析结果和错误信息
+function parseStructured(text: string, schema: JsonSchema): { value: any; errors: string[] } {
+  const value = parseJsonResponse(text);
+  if (!value) {
+    return { value, errors: ['回复中没有有效的 JSON 对象，请检查括号、引号和逗号是否完整'] };
+  }
+  return { value, errors: validateJson(value, schema) };
+}
+
+/**
+ * 调用 LLM 并要求输出符合 schema 的 JSON
+ * 提供商支持时启用 JSON 模式；输出无法解析或不符合结构时，把错误发回给模型要求修正
+ */
+async function callStructured(
   prompt: string,
+  schema: JsonSchema,
   config: LLMConfig,
-  onStepComplete?: (step: ProcessStepResult) => void
-): Promise<HomeworkProcessResult> {
-  const directPrompt = `你是一个专业的文档生成助手。请根据用户的需求，生成高质量的内容。
+  options: LLMCallOptions = {}
+): Promise<any> {
+  const messages: ChatMessage[] = [{ role: 'user', content: prompt }];
+  const callOptions: LLMCallOptions = {
+    ...options,
+    onToken: undefined,
+    jsonMode: true,
+    // 不符合结构的输出不缓存，避免重新请求时得到同样的错误结果
+    isCacheable: (text) => parseStructured(text, schema).errors.length === 0,
+  };
+
+  let response = await callLLMInternal(messages, config, callOptions);
+  let { value, errors } = parseStructured(response, schema);
+  for (let attempt = 1; errors.length > 0 && attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    console.warn(`模型输出不符合结构要求，正在请求修正（第 ${attempt} 次）:`, errors);
+    messages.push(
+      { role: 'assistant', content: response },
+      { role: 'user', content: buildRepairPrompt(errors, schema) }
+    );
+    response = await callLLMInternal(messages, config, callOptions);
+    ({ value, errors } = parseStructured(response, schema));
+  }
+
+  if (errors.length > 0) {
+    console.error('模型输出修正后仍不符合结构要求:', response);
+    throw new Error(`AI 返回的格式不正确，请重试（${errors.slice(0, 3).join('；')}）`);
+  }
+  return value;
+}
+
+// ==================== 分块结果合并 ====================
+
+/**
+ * 从 LLM 返回的文本中提取 JSON 对象，失败时返回 null
+ * 依次尝试：整段文本、包裹整段文本的代码块、第一个 json 代码块、首尾大括号之间的内容
+ * JSON 字符串中可能含有代码块（如编程题的题目），所以先按整段解析，再按第一个代码块结束位置截取
+ */
+function parseJsonResponse(text: string): any {
+  const candidates = [text.trim()];
+  const fenced = text.match(/^\s*```(?:json)?\s*([\s\S]*?)\s*```\s*$/);
+  if (fenced) candidates.push(fenced[1]);
+  const firstBlock = text.match(/```json\s*([\s\S]*?)\s*```/);
+  if (firstBlock) candidates.push(firstBlock[1]);
+  const startIdx = text.indexOf('{');
+  const endIdx = text.lastIndexOf('}');
+  if (startIdx !== -1 && endIdx > startIdx) candidates.push(text.substring(startIdx, endIdx + 1));
+
+  for (const candidate of candidates) {
+    try {
+      const parsed = JSON.parse(candidate);
+      if (parsed && typeof parsed === 'object') return parsed;
+    } catch {
+      // 尝试下一种方式
+    }
+  }
+  return null;
+}
+
+// 去重比较用：忽略空白、标点和大小写
+function normalizeForCompare(text: string): string {
+  return String(text).toLowerCase().replace(/[\s\p{P}]/gu, '');
+}
+
+function uniqueBy<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const k = key(item);
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+function toJsonBlock(value: any): string {
+  return '```json\n' + JSON.stringify(value, null, 2) + '\n```';
+}
+
+/**
+ * 合并各分块提取的格式模版
+ * 数组字段取并集，文本字段去重后拼接；有明确说明时丢弃标注为"(推断)"的值
+ */
+function mergeFormatTemplates(contents: string[]): string | null {
+  const templates = contents.map(parseJsonResponse);
+  if (templates.some(template => !template)) return null;
+
+  const merged: Record<string, any> = {};
+  const keys = uniqueBy(templates.flatMap(template => Object.keys(template)), key => key);
+  for (const key of keys) {
+    const values = templates.map(template => template[key]).filter(value => value !== undefined && value !== null && value !== '');
+    if (values.some(Array.isArray)) {
+      const items = values.flatMap(value => Array.isArray(value) ? value : [value]);
+      merged[key] = uniqueBy(items, item => normalizeForCompare(typeof item === 'string' ? item : JSON.stringify(item)));
+    } else {
+      const texts = uniqueBy(values.map(String), normalizeForCompare);
+      const explicit = texts.filter(text => !/[(（]推断[)）]/.test(text));
+      merged[key] = (explicit.length > 0 ? explicit : texts).join('；');
+    }
+  }
+  return toJsonBlock(merged);
+}
+
+/**
+ * 合并各分块提取的题目列表
+ * 相同题目只保留首次出现的一份，并记录题目所在的分块
+ */
+function mergeQuestionLists(contents: string[]): string | null {
+  const results = contents.map(parseJsonResponse);
+  if (results.some(result => !result || !Array.isArray(result.questions))) return null;
+
+  const questions = uniqueBy(
+    results.flatMap((result, i) => result.questions.map((question: any) => ({ ...question, chunkIndex: i + 1 }))),
+    question => normalizeForCompare(question.question || '')
+  );
+  const summaries = uniqueBy(
+    results.map(result => result.summary).filter((summary): summary is string => typeof summary === 'string' && !!summary.trim()),
+    normalizeForCompare
+  );
+  return toJsonBlock({
+    questions: questions.map((question, i) => ({ ...question, id: i + 1 })),
+    summary: summaries.join('\n'),
+  });
+}
+
+// 无法直接解析各分块结果时，交给 LLM 合并
+async function mergeChunkResultsWithLLM(
+  step: 'format' | 'questions',
+  contents: string[],
+  config: LLMConfig,
+  options: LLMCallOptions
+): Promise<string> {
+  const target = step === 'format' ? '作业格式模版' : '题目列表';
+  const parts = contents
+    .map((content, i) => `<<<第 ${i + 1} 部分>>>\n${content}\n<<<第 ${i + 1} 部分结束>>>`)
+    .join('\n\n');
 
-【用户需求】
-${prompt}
+  const mergePrompt = buildPrompt('merge', { partCount: contents.length, target, parts }, options);
 
-【任务要求】
-请根据用户的需求，生成完整、专业、格式规范的内容。要求：
-1. 内容准确、专业、有深度
-2. 使用规范的 Markdown 语法
-3. 结构清晰，层次分明
-4. 适当使用标题、列表、代码块等格式化元素
-5. 如涉及数学公式，使用 LaTeX 语法（如 $E=mc^2$）
-6. 如涉及代码，使用正确的代码块标记
+  const schema = step === 'format' ? FORMAT_TEMPLATE_SCHEMA : QUESTION_LIST_SCHEMA;
+  const merged = await callStructured(mergePrompt, schema, config, { ...options, step });
+  return toJsonBlock(step === 'questions' ? restoreChunkIndexes(merged, contents) : merged);
+}
+
+/**
+ * LLM 合并后的题目列表没有分块信息，按题目内容与各分块提取的题目匹配，找回题目所在的分块
+ * 先找内容相同的题目，再找互相包含的题目；都找不到时不设置分块，解答时发送全部附件
+ */
+function restoreChunkIndexes(merged: any, contents: string[]): any {
+  const chunkQuestions: string[][] = contents.map(content => {
+    const list = parseJsonResponse(content)?.questions;
+    return Array.isArray(list) ? list.map((question: any) => normalizeForCompare(question?.question || '')) : [];
+  });
+  const findChunk = (matches: (item: string) => boolean) =>
+    chunkQuestions.findIndex(list => list.some(item => !!item && matches(item)));
+
+  return {
+    ...merged,
+    questions: merged.questions.map((question: any) => {
+      const text = normalizeForCompare(question.question || '');
+      if (!text) return question;
+      let index = findChunk(item => item === text);
+      if (index === -1) index = findChunk(item => item.includes(text) || text.includes(item));
+      return index === -1 ? question : { ...question, chunkIndex: index + 1 };
+    }),
+  };
+}
 
-【输出格式】
-直接输出完整的 Markdown 文档内容，不需要代码块包裹。`;
+// 按分块执行单个步骤：每块分别处理后合并为一个结果
+async function runChunkedStep(
+  step: 'format' | 'questions',
+  chunks: AttachmentPart[][],
+  config: LLMConfig,
+  extract: (sources: AttachmentPart[], chunk: ChunkInfo) => Promise<ProcessStepResult>,
+  merge: (contents: string[]) => string | null,
+  options: LLMCallOptions
+): Promise<ProcessStepResult> {
+  const total = chunks.length;
+  if (total === 1) {
+    return { ...(await extract(chunks[0], { index: 1, total })), chunkCount: 1 };
+  }
+
+  const contents: string[] = [];
+  for (let i = 0; i < total; i++) {
+    throwIfAborted(options.signal);
+    const result = await extract(chunks[i], { index: i + 1, total });
+    contents.push(result.content);
+  }
+
+  const merged = merge(contents) ?? await mergeChunkResultsWithLLM(step, contents, config, options);
+  return {
+    step,
+    content: merged,
+    timestamp: new Date().toISOString(),
+    chunkCount: total
+  };
+}
 
-  const result = await callLLMInternal(directPrompt, config);
+// 直接生成模式：无需上传文件，直接根据 prompt 生成内容
+async function directGeneration(
+  prompt: string,
+  config: LLMConfig,
+  usage: UsageTracker,
+  onStepComplete?: (step: ProcessStepResult) => void,
+  options: HomeworkProcessOptions = {}
+): Promise<HomeworkProcessResult> {
+  const directPrompt = buildPrompt('direct', { userPrompt: prompt }, options);
+
+  // 直接生成只有最终文档一个实际步骤
+  if (options.onStepStart) options.onStepStart('final');
+  const startedAt = Date.now();
+  const result = await callLLMInternal(directPrompt, config, { ...options, step: 'final' });
   
   const timestamp = new Date().toISOString();
   
@@ -218,124 +793,848 @@ ${prompt}
   const finalResult: ProcessStepResult = {
     step: 'final',
     content: result,
-    timestamp
+    timestamp,
+    elapsedMs: Date.now() - startedAt,
+    usage: usage.getStepUsage('final'),
+    cacheHits: usage.getStepCacheHits('final')
   };
   
-  if (onStepComplete) {
-    onStepComplete(formatTemplate);
-    onStepComplete(questionsAnswer);
-    onStepComplete(finalResult);
-  }
+  if (onStepComplete) onStepComplete(finalResult);
   
   return {
     formatTemplate,
     questionsAnswer,
-    finalResult
+    finalResult,
+    chunkCount: 0
   };
 }
 
 // 完整的作业处理流程
 export async function processHomework(
   prompt: string,
-  fileContent: string,
+  attachments: Attachment[],
   config: LLMConfig,
-  onStepComplete?: (step: ProcessStepResult) => void
+  onStepComplete?: (step: ProcessStepResult) => void,
+  options: HomeworkProcessOptions = {}
 ): Promise<HomeworkProcessResult> {
   if (!prompt || !prompt.trim()) {
     throw new Error('请求内容不能为空');
   }
 
-  // 如果没有文件内容，使用简化的直接生成模式
-  if (!fileContent || !fileContent.trim()) {
-    return await directGeneration(prompt, config, onStepComplete);
+  // 统计本次处理各步骤的实际用量和缓存命中
+  const usage = createUsageTracker(options);
+  options = { ...options, onUsage: usage.record, onCacheHit: usage.recordCacheHit };
+  const withUsage = (result: HomeworkProcessResult): HomeworkProcessResult => {
+    const total = usage.getTotal();
+    const { pricing } = getModelInfo(config);
+    return {
+      ...result,
+      usage: total,
+      cost: total && pricing ? calculateCost(total, pricing) : undefined,
+      cacheHits: usage.getCacheHits() || undefined,
+    };
+  };
+
+  // 如果没有附件内容，使用简化的直接生成模式
+  const sources = getNonEmptyAttachments(attachments || []);
+  if (sources.length === 0) {
+    return withUsage(await directGeneration(prompt, config, usage, onStepComplete, options));
   }
 
-  // 步骤1：提取格式模版
-  const formatTemplate = await extractFormatTemplate(prompt, fileContent, config);
-  if (onStepComplete) onStepComplete(formatTemplate);
+  // 附件内容过长时切分为多块，每块分别提取后合并
+  const chunks = chunkAttachments(sources, MAX_CHUNK_LENGTH);
+
+  // 执行单个步骤，开始和完成时通知调用方并记录耗时；已完成的步骤直接复用
+  const runStep = async (
+    step: ProcessStepResult['step'],
+    run: () => Promise<ProcessStepResult>
+  ): Promise<ProcessStepResult> => {
+    throwIfAborted(options.signal);
+    const completed = options.completedSteps?.find(result => result.step === step);
+    if (completed) {
+      if (onStepComplete) onStepComplete(completed);
+      return completed;
+    }
+    if (options.onStepStart) options.onStepStart(step);
+    const startedAt = Date.now();
+    const result = {
+      ...(await run()),
+      elapsedMs: Date.now() - startedAt,
+      usage: usage.getStepUsage(step),
+      cacheHits: usage.getStepCacheHits(step)
+    };
+    if (onStepComplete) onStepComplete(result);
+    return result;
+  };
 
-  // 步骤2：提取题目并解答
-  const questionsAnswer = await extractAndAnswerQuestions(prompt, fileContent, config);
-  if (onStepComplete) onStepComplete(questionsAnswer);
+  // 步骤1、2 互不依赖，同时执行：提取格式模版、提取题目并解答
+  // 一个步骤失败时等待另一个完成，已完成的结果可在继续时复用
+  const [formatOutcome, questionsOutcome] = await Promise.allSettled([
+    runStep('format', () => runChunkedStep(
+      'format',
+      chunks,
+      config,
+      (chunkSources, chunk) => extractFormatTemplate(prompt, chunkSources, config, chunk, options),
+      mergeFormatTemplates,
+      options
+    )),
+    runStep('questions', () => runQuestionsStep(prompt, chunks, config, options)),
+  ]);
+  if (formatOutcome.status === 'rejected') throw formatOutcome.reason;
+  if (questionsOutcome.status === 'rejected') throw questionsOutcome.reason;
+  const formatTemplate = formatOutcome.value;
+  const questionsAnswer = questionsOutcome.value;
 
-  // 步骤3：整合生成最终文档
-  const finalResult = await generateFinalMarkdown(
+  // 步骤3：整合生成最终文档（仅最终文档流式输出，中间步骤为 JSON）
+  const finalResult = await runStep('final', () => generateFinalMarkdown(
     formatTemplate.content,
     questionsAnswer.content,
     prompt,
-    config
-  );
-  if (onStepComplete) onStepComplete(finalResult);
+    config,
+    options
+  ));
 
-  return {
+  return withUsage({
     formatTemplate,
     questionsAnswer,
-    finalResult
-  };
+    finalResult,
+    chunkCount: chunks.length
+  });
 }
 
 // 兼容旧接口的 callLLM 函数
 export async function callLLM(
   prompt: string,
-  fileContent: string,
-  config: LLMConfig
+  attachments: Attachment[],
+  config: LLMConfig,
+  options: LLMCallOptions = {}
 ): Promise<string> {
-  const result = await processHomework(prompt, fileContent, config);
+  const result = await processHomework(prompt, attachments, config, undefined, options);
   return result.finalResult.content;
 }
 
-// 内部 LLM 调用函数
-async function callLLMInternal(prompt: string, config: LLMConfig): Promise<string> {
+// ==================== 用量统计与估算 ====================
+
+// 按步骤和总计累加每次请求的用量
+interface UsageTracker {
+  record: (usage: TokenUsage, step?: GenerationStep) => void;
+  recordCacheHit: (step?: GenerationStep) => void;
+  getStepUsage: (step: GenerationStep) => TokenUsage | undefined;
+  getStepCacheHits: (step: GenerationStep) => number | undefined;
+  getTotal: () => TokenUsage | undefined;
+  getCacheHits: () => number;
+}
+
+function addUsage(total: TokenUsage | undefined, usage: TokenUsage): TokenUsage {
+  return {
+    inputTokens: (total?.inputTokens ?? 0) + usage.inputTokens,
+    outputTokens: (total?.outputTokens ?? 0) + usage.outputTokens,
+    ...((total?.estimated || usage.estimated) && { estimated: true }),
+  };
+}
+
+function createUsageTracker(options: LLMCallOptions): UsageTracker {
+  const byStep: Partial<Record<GenerationStep, TokenUsage>> = {};
+  const cacheHitsByStep: Partial<Record<GenerationStep, number>> = {};
+  let total: TokenUsage | undefined;
+  let cacheHits = 0;
+  return {
+    record: (usage, step) => {
+      if (step) byStep[step] = addUsage(byStep[step], usage);
+      total = addUsage(total, usage);
+      if (options.onUsage) options.onUsage(usage, step);
+    },
+    recordCacheHit: (step) => {
+      if (step) cacheHitsByStep[step] = (cacheHitsByStep[step] ?? 0) + 1;
+      cacheHits++;
+      if (options.onCacheHit) options.onCacheHit(step);
+    },
+    getStepUsage: (step) => byStep[step],
+    getStepCacheHits: (step) => cacheHitsByStep[step],
+    getTotal: () => total,
+    getCacheHits: () => cacheHits,
+  };
+}
+
+// 单个步骤的预估用量
+export interface StepEstimate {
+  step: ProcessStepResult['step'];
+  requests: number;          // 请求次数
+  inputTokens: number;
+  outputTokens: number;
+  maxRequestTokens: number;  // 单次请求的最大占用（输入 + 输出上限），用于检查是否超出上下文长度
+}
+
+// 作业处理的预估用量和费用
+export interface HomeworkEstimate {
+  model: string;
+  steps: StepEstimate[];
+  inputTokens: number;
+  outputTokens: number;
+  cost?: UsageCost;          // 按参考价格计算，模型价格未知时为空
+  contextWindow?: number;    // 模型上下文长度，未知时为空
+  exceedsContext: boolean;   // 是否有请求超出上下文长度
+  approximate: boolean;      // token 数是否为粗略估算（模型的分词器未公开时）
+  questionCount: number;     // 按题号估算的题目数
+  chunkCount: number;
+}
+
+// 各类请求的预计输出 token 数（经验值），不超过步骤的 maxTokens
+const EXPECTED_OUTPUT_TOKENS = {
+  format: 400,        // 格式模版
+  perQuestion: 80,    // 题目提取：每道题
+  answer: 600,        // 单道题的解答
+  final: 300,         // 最终文档中答案以外的标题、说明等
+};
+
+// 行首的题号，如 "1." "2、" "第三题"
+const QUESTION_NUMBER_PATTERN = /^\s*(?:\d{1,3}\s*[.、．](?!\d)|第[一二三四五六七八九十百\d]+[题道])/gm;
+
+function countQuestions(text: string): number {
+  return (text.match(QUESTION_NUMBER_PATTERN) || []).length;
+}
+
+/**
+ * 发送前估算作业处理的用量：按实际使用的提示词模版和分块方式逐个请求估算输入，
+ * 输出按经验值估算（不超过步骤的 maxTokens），题目数按附件中的题号估算
+ */
+export function estimateHomework(
+  prompt: string,
+  attachments: Attachment[],
+  config: LLMConfig,
+  options: LLMCallOptions = {}
+): HomeworkEstimate {
+  const info = getModelInfo(config);
+  const countTokens = (text: string) => estimateTokens(text, info.tokenizer) + MESSAGE_OVERHEAD_TOKENS;
+  const getMaxTokens = (step: GenerationStep) =>
+    resolveGenerationParams(config, step).maxTokens || DEFAULT_GENERATION_PARAMS.maxTokens!;
+
+  const steps: StepEstimate[] = [];
+  const addRequest = (step: StepEstimate['step'], inputTokens: number, outputTokens: number) => {
+    let estimate = steps.find(item => item.step === step);
+    if (!estimate) {
+      estimate = { step, requests: 0, inputTokens: 0, outputTokens: 0, maxRequestTokens: 0 };
+      steps.push(estimate);
+    }
+    estimate.requests++;
+    estimate.inputTokens += inputTokens;
+    estimate.outputTokens += outputTokens;
+    estimate.maxRequestTokens = Math.max(estimate.maxRequestTokens, inputTokens + getMaxTokens(step));
+  };
+
+  const sources = getNonEmptyAttachments(attachments || []);
+  const chunks = chunkAttachments(sources, MAX_CHUNK_LENGTH);
+  let questionCount = 0;
+
+  if (chunks.length === 0) {
+    // 直接生成：输出长度无法预估，按输出上限计算
+    addRequest('final', countTokens(buildPrompt('direct', { userPrompt: prompt }, options)), getMaxTokens('final'));
+  } else {
+    // 没有识别到题号时至少按一道题估算
+    const chunkQuestions = chunks.map(chunk => countQuestions(chunk.map(part => part.content).join('\n')));
+    if (!chunkQuestions.some(count => count > 0)) chunkQuestions[0] = 1;
+    questionCount = chunkQuestions.reduce((sum, count) => sum + count, 0);
+
+    const formatOutput = Math.min(EXPECTED_OUTPUT_TOKENS.format, getMaxTokens('format'));
+    const answerOutput = Math.min(EXPECTED_OUTPUT_TOKENS.answer, getMaxTokens('questions'));
+    chunks.forEach((chunk, i) => {
+      const variables = {
+        userPrompt: prompt,
+        fileContent: formatAttachments(chunk),
+        chunkNote: formatChunkNote({ index: i + 1, total: chunks.length }),
+      };
+      addRequest('format', countTokens(buildPrompt('format', variables, options)), formatOutput);
+      addRequest(
+        'questions',
+        countTokens(buildPrompt('questions', variables, options)),
+        Math.min(EXPECTED_OUTPUT_TOKENS.perQuestion * chunkQuestions[i], getMaxTokens('questions'))
+      );
+
+      // 每道题单独解答，题目本身按提取时的输出估算
+      const answerInput = countTokens(buildPrompt('answer', {
+        userPrompt: prompt,
+        fileContent: variables.fileContent,
+        questionId: 1,
+        questionType: '',
+        question: '',
+      }, options)) + EXPECTED_OUTPUT_TOKENS.perQuestion;
+      for (let j = 0; j < chunkQuestions[i]; j++) {
+        addRequest('questions', answerInput, answerOutput);
+      }
+    });
+
+    // 最终文档的输入包含格式模版和所有答案，输出超过上限时会自动续写
+    const answersTokens = questionCount * (answerOutput + EXPECTED_OUTPUT_TOKENS.perQuestion);
+    addRequest(
+      'final',
+      countTokens(buildPrompt('final', { formatTemplate: '', questionsAnswer: '', userPrompt: prompt }, options)) + formatOutput + answersTokens,
+      Math.min(questionCount * answerOutput + EXPECTED_OUTPUT_TOKENS.final, getMaxTokens('final') * (MAX_CONTINUATIONS + 1))
+    );
+  }
+
+  const total = {
+    inputTokens: steps.reduce((sum, step) => sum + step.inputTokens, 0),
+    outputTokens: steps.reduce((sum, step) => sum + step.outputTokens, 0),
+  };
+  return {
+    model: info.model,
+    steps,
+    ...total,
+    cost: info.pricing ? calculateCost(total, info.pricing) : undefined,
+    contextWindow: info.contextWindow,
+    exceedsContext: info.contextWindow !== undefined && steps.some(step => step.maxRequestTokens > info.contextWindow!),
+    approximate: !hasExactTokenizer(info.tokenizer),
+    questionCount,
+    chunkCount: chunks.length,
+  };
+}
+
+// ==================== 对话（Ask 模式） ====================
+
+// 对话时最多携带的历史消息数，更早的消息会被省略
+const MAX_CHAT_HISTORY = 20;
+
+// 对话上下文中附件和文档的总长度上限，超出部分截断
+const MAX_CHAT_CONTEXT_LENGTH = 30000;
+
+// 对话选项
+export interface ChatOptions extends LLMCallOptions {
+  document?: string;   // 编辑器中的当前文档，作为上下文一起发送
+}
+
+function truncateContext(text: string, maxLength: number): string {
+  return text.length > maxLength
+    ? `${text.substring(0, maxLength)}\n...（内容过长，已截断）`
+    : text;
+}
+
+// 对话的系统提示词：说明助手角色，并附上附件和当前文档作为参考资料
+function buildChatSystemPrompt(attachments: Attachment[], options: ChatOptions): string {
+  const { document } = options;
+  const sections = [buildPrompt('chat', {}, options)];
+
+  let remaining = MAX_CHAT_CONTEXT_LENGTH;
+  if (document && document.trim()) {
+    const content = truncateContext(document.trim(), remaining);
+    remaining = Math.max(0, remaining - content.length);
+    sections.push(`【当前文档】（用户正在编辑的文档）\n${content}`);
+  }
+
+  const sources = getNonEmptyAttachments(attachments || []);
+  if (sources.length > 0) {
+    const parts = sources.map((attachment, i) => {
+      const content = truncateContext(attachment.content, Math.floor(remaining / sources.length));
+      return { ...attachment, content, index: i + 1 };
+    });
+    sections.push(`【附件内容】（每个附件以 <<<附件 N：文件名>>> 开头）\n${formatAttachments(parts)}`);
+  }
+  return sections.join('\n\n');
+}
+
+/**
+ * 多轮对话：发送历史消息、附件和可选的当前文档，返回助手的回答
+ * @param messages 对话历史（user / assistant 交替），最后一条为本次提问
+ */
+export async function chat(
+  messages: ChatMessage[],
+  attachments: Attachment[],
+  config: LLMConfig,
+  options: ChatOptions = {}
+): Promise<string> {
+  const history = (messages || []).filter(message =>
+    (message.role === 'user' || message.role === 'assistant') && message.content && message.content.trim()
+  );
+  if (history.length === 0 || history[history.length - 1].role !== 'user') {
+    throw new Error('请求内容不能为空');
+  }
+
+  return await callLLMInternal(
+    [
+      { role: 'system', content: buildChatSystemPrompt(attachments, options) },
+      ...history.slice(-MAX_CHAT_HISTORY),
+    ],
+    config,
+    { ...options, step: 'chat' }
+  );
+}
+
+// 合并默认值、通用设置和步骤设置，得到本次调用的生成参数
+function resolveGenerationParams(config: LLMConfig, step?: GenerationStep): GenerationParams {
+  const stepParams = step ? config.stepGeneration?.[step] : undefined;
+  const params: GenerationParams = { ...DEFAULT_GENERATION_PARAMS };
+  for (const source of [config.generation, stepParams]) {
+    for (const [key, value] of Object.entries(source || {})) {
+      if (typeof value === 'number' && !isNaN(value)) {
+        params[key as keyof GenerationParams] = value;
+      }
+    }
+  }
+  return params;
+}
+
+/**
+ * 内部 LLM 调用函数，传入 onToken 时使用流式输出，传入 signal 时可取消
+ * prompt 可以是单条提示词，也可以是完整的对话消息列表
+ * 输出因长度限制被截断时自动发送续写请求，并拼接为完整结果
+ * 传入 cache 时按提供商、模型、生成参数和消息内容缓存完整结果（只缓存 CACHEABLE_STEPS 中的步骤）
+ */
+async function callLLMInternal(
+  prompt: string | ChatMessage[],
+  config: LLMConfig,
+  options: LLMCallOptions = {}
+): Promise<string> {
+  const params = resolveGenerationParams(config, options.step);
+  const messages: ChatMessage[] = typeof prompt === 'string' ? [{ role: 'user', content: prompt }] : [...prompt];
+  const { onTrace } = options;
+  if (!onTrace) {
+    return await callWithCache(messages, config, params, options);
+  }
+
+  // 记录本次调用的消息、响应、耗时、重试和用量
+  const startedAt = Date.now();
+  const trace: LLMCallTrace = {
+    step: options.step,
+    provider: config.provider,
+    model: getModelInfo(config).model,
+    params,
+    jsonMode: options.jsonMode,
+    messages,
+    startedAt: new Date(startedAt).toISOString(),
+    latencyMs: 0,
+    retries: [],
+  };
+  const tracedOptions: LLMCallOptions = {
+    ...options,
+    onRetry: (info) => {
+      trace.retries.push(info);
+      if (options.onRetry) options.onRetry(info);
+    },
+    onUsage: (usage, step) => {
+      trace.usage = addUsage(trace.usage, usage);
+      if (options.onUsage) options.onUsage(usage, step);
+    },
+    onCacheHit: (step) => {
+      trace.cached = true;
+      if (options.onCacheHit) options.onCacheHit(step);
+    },
+  };
+  try {
+    trace.response = await callWithCache(messages, config, params, tracedOptions);
+    return trace.response;
+  } catch (error: any) {
+    trace.error = error.message || String(error);
+    throw error;
+  } finally {
+    trace.latencyMs = Date.now() - startedAt;
+    onTrace(trace);
+  }
+}
+
+// 使用缓存的步骤：Build 的格式提取和题目提取、解答，相同输入重复请求时结果可以复用
+// 最终文档、Edit 和 Ask 的回答依赖上下文且通常需要不同的结果，始终重新请求
+const CACHEABLE_STEPS: GenerationStep[] = ['format', 'questions'];
+
+// 命中缓存时直接返回缓存的响应，否则发送请求并写入缓存
+async function callWithCache(
+  messages: ChatMessage[],
+  config: LLMConfig,
+  params: GenerationParams,
+  options: LLMCallOptions
+): Promise<string> {
+  const cache = options.step && CACHEABLE_STEPS.includes(options.step) ? options.cache : undefined;
+  const cacheKey = cache && getCacheKey({
+    provider: config.provider,
+    model: config.model || '',
+    apiUrl: config.apiUrl || '',
+    customMode: config.customMode,
+    params,
+    jsonMode: !!options.jsonMode,
+    messages,
+  });
+  if (cache && cacheKey && !options.bypassCache) {
+    const cached = await readCachedResponse(cache, cacheKey);
+    if (cached !== null && (!options.isCacheable || options.isCacheable(cached))) {
+      if (options.onToken) options.onToken(cached);
+      if (options.onCacheHit) options.onCacheHit(options.step);
+      return cached;
+    }
+  }
+
+  const content = await requestWithContinuation(messages, config, params, options);
+  if (cache && cacheKey && (!options.isCacheable || options.isCacheable(content))) {
+    await writeCachedResponse(cache, cacheKey, content, config.model);
+  }
+  return content;
+}
+
+// 发送请求，输出因长度限制被截断时自动续写（续写消息追加在副本上，不修改传入的消息列表）
+async function requestWithContinuation(
+  initialMessages: ChatMessage[],
+  config: LLMConfig,
+  params: GenerationParams,
+  options: LLMCallOptions
+): Promise<string> {
+  const messages = [...initialMessages];
+  let content = '';
+  for (let attempt = 0; attempt <= MAX_CONTINUATIONS; attempt++) {
+    throwIfAborted(options.signal);
+    const completion = await callProvider(messages, config, params, options);
+    if (options.onUsage) {
+      options.onUsage(completion.usage || estimateUsage(messages, completion.content, config), options.step);
+    }
+    content += completion.content;
+    if (completion.finishReason !== 'length') {
+      return content;
+    }
+    if (attempt < MAX_CONTINUATIONS) {
+      console.warn(`模型输出达到长度上限，正在续写（第 ${attempt + 1} 次）`);
+      messages.push(
+        { role: 'assistant', content: completion.content },
+        { role: 'user', content: CONTINUATION_PROMPT }
+      );
+    }
+  }
+  console.warn(`模型输出续写 ${MAX_CONTINUATIONS} 次后仍未完成，返回已生成的内容`);
+  return content;
+}
+
+// 提供商没有返回用量时按文本估算
+function estimateUsage(messages: ChatMessage[], output: string, config: LLMConfig): TokenUsage {
+  const { tokenizer } = getModelInfo(config);
+  return {
+    inputTokens: messages.reduce((sum, message) => sum + estimateTokens(message.content, tokenizer) + MESSAGE_OVERHEAD_TOKENS, 0),
+    outputTokens: estimateTokens(output, tokenizer),
+    estimated: true,
+  };
+}
+
+// 按提供商发送一次请求
+async function callProvider(
+  messages: ChatMessage[],
+  config: LLMConfig,
+  params: GenerationParams,
+  options: LLMCallOptions
+): Promise<LLMCompletion> {
   switch (config.provider) {
     case 'qwen':
-      return await callQwen(prompt, config);
+      return await callQwen(messages, config, params, options);
     case 'openai':
-      return await callOpenAI(prompt, config);
-    case 'custom':
-      return await callCustom(prompt, config);
+      return await callOpenAI(messages, config, params, options);
+    case 'local':
+      return await callLocal(messages, config, params, options);
+    case 'custom': {
+      if (config.customMode === 'openai') {
+        return await callCustomCompatible(messages, config, params, options);
+      }
+      // 原始模式只支持单条提示词，也不支持流式输出，完成后一次性推送
+      const prompt = messages.map(message => message.content).join('\n\n');
+      const result = await callCustom(prompt, config, options);
+      if (options.onToken) options.onToken(result);
+      return { content: result };
+    }
     default:
       throw new Error(`不支持的 LLM 提供商: ${config.provider}`);
   }
 }
 
-async function callQwen(prompt: string, config: LLMConfig): Promise<string> {
+// ==================== 并发限制 ====================
+
+let activeRequestCount = 0;
+const requestQueue: (() => void)[] = [];
+
+// 等待空闲的请求名额，排队期间取消时移出队列
+function acquireRequestSlot(signal?: AbortSignal): Promise<void> {
+  if (activeRequestCount < MAX_CONCURRENT_REQUESTS) {
+    activeRequestCount++;
+    return Promise.resolve();
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      const index = requestQueue.indexOf(grant);
+      if (index !== -1) requestQueue.splice(index, 1);
+      reject(new Error(REQUEST_CANCELLED_MESSAGE));
+    };
+    // 名额由释放方直接转交，activeRequestCount 不变
+    const grant = () => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    };
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    requestQueue.push(grant);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function releaseRequestSlot(): void {
+  const next = requestQueue.shift();
+  if (next) {
+    next();
+  } else {
+    activeRequestCount--;
+  }
+}
+
+// ==================== 重试与超时 ====================
+
+function isRetryableError(error: any): boolean {
+  if (axios.isCancel(error)) return false;
+  if (error.response) {
+    return RETRYABLE_STATUS.includes(error.response.status);
+  }
+  return RETRYABLE_ERROR_CODES.includes(error.code);
+}
+
+// 解析 Retry-After 响应头（秒数或 HTTP 日期），没有时返回 undefined
+function getRetryAfterMs(error: any): number | undefined {
+  const value = error.response?.headers?.['retry-after'];
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// 下次重试前的等待时间：优先使用 Retry-After，否则指数退避并加入随机抖动
+function getRetryDelayMs(error: any, attempt: number): number {
+  const retryAfter = getRetryAfterMs(error);
+  const delay = retryAfter ?? RETRY_BASE_DELAY_MS * 2 ** attempt * (1 + Math.random() * 0.5);
+  return Math.min(Math.round(delay), MAX_RETRY_DELAY_MS);
+}
+
+function describeRetryReason(error: any): string {
+  const status = error.response?.status;
+  if (status === 429) return '请求频率受限 (429)';
+  if (status) return `服务暂时不可用 (${status})`;
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') return '请求超时';
+  return `网络错误 (${error.code || error.message})`;
+}
+
+// 可取消的等待
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error(REQUEST_CANCELLED_MESSAGE));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error(REQUEST_CANCELLED_MESSAGE));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * 发送 POST 请求，超时、限流 (429) 和服务端临时错误 (5xx) 时按指数退避自动重试
+ * 每次发送都在全局并发限制内进行，超过上限时排队等待；等待重试期间让出名额，不阻塞其他请求
+ * 传入 read 时在持有名额期间读取响应（流式请求读取完整个流才释放名额）
+ * 流式请求只在收到响应之前重试，已经开始输出的流不会重新发送
+ */
+async function postWithRetry<T = AxiosResponse>(
+  url: string,
+  body: any,
+  requestConfig: AxiosRequestConfig,
+  options: LLMCallOptions,
+  read: (response: AxiosResponse) => Promise<T> | T = (response) => response as T
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    let info: RetryInfo | undefined;
+    await acquireRequestSlot(options.signal);
+    try {
+      let response: AxiosResponse;
+      try {
+        response = await axios.post(url, body, { timeout: REQUEST_TIMEOUT_MS, ...requestConfig, signal: options.signal });
+      } catch (error: any) {
+        if (attempt >= MAX_RETRIES || options.signal?.aborted || !isRetryableError(error)) {
+          throw error;
+        }
+        info = {
+          attempt: attempt + 1,
+          maxRetries: MAX_RETRIES,
+          delayMs: getRetryDelayMs(error, attempt),
+          reason: describeRetryReason(error),
+          step: options.step,
+        };
+      }
+      if (!info) {
+        return await read(response!);
+      }
+    } finally {
+      releaseRequestSlot();
+    }
+
+    console.warn(`${info.reason}，${info.delayMs}ms 后进行第 ${info.attempt}/${info.maxRetries} 次重试`);
+    if (options.onRetry) options.onRetry(info);
+    await sleep(info.delayMs, options.signal);
+  }
+}
+
+// OpenAI 协议的生成参数字段
+function toOpenAIParams(params: GenerationParams): Record<string, number> {
+  return {
+    ...(params.temperature !== undefined && { temperature: params.temperature }),
+    ...(params.maxTokens !== undefined && { max_tokens: params.maxTokens }),
+    ...(params.topP !== undefined && { top_p: params.topP }),
+  };
+}
+
+// OpenAI 协议返回的用量
+function parseOpenAIUsage(usage: any): TokenUsage | undefined {
+  if (typeof usage?.prompt_tokens !== 'number') return undefined;
+  return { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens ?? 0 };
+}
+
+// Qwen（DashScope）返回的用量
+function parseQwenUsage(usage: any): TokenUsage | undefined {
+  if (typeof usage?.input_tokens !== 'number') return undefined;
+  return { inputTokens: usage.input_tokens, outputTokens: usage.output_tokens ?? 0 };
+}
+
+/**
+ * 发送流式（SSE）请求，每收到一段增量文本回调一次，返回完整文本、结束原因和用量
+ * @param getDelta 从每个事件的 JSON 数据中取出增量文本
+ * @param getFinishReason 从每个事件的 JSON 数据中取出结束原因
+ * @param getUsage 从每个事件的 JSON 数据中取出用量（以最后一次出现的为准）
+ */
+async function postStream(
+  url: string,
+  body: any,
+  headers: Record<string, string>,
+  getDelta: (data: any) => string | undefined,
+  getFinishReason: (data: any) => string | undefined,
+  getUsage: (data: any) => TokenUsage | undefined,
+  onToken: TokenCallback,
+  options: LLMCallOptions,
+  timeoutMs: number = REQUEST_TIMEOUT_MS
+): Promise<LLMCompletion> {
+  return await postWithRetry(url, body, { headers, responseType: 'stream', timeout: timeoutMs }, options, async (response) => {
+    let content = '';
+    let finishReason: string | undefined;
+    let usage: TokenUsage | undefined;
+    for await (const data of readSseData(response.data)) {
+      if (data === '[DONE]') break;
+
+      let parsed: any;
+      try {
+        parsed = JSON.parse(data);
+      } catch {
+        continue;
+      }
+      // 流中途返回的错误事件
+      if (parsed.error || (parsed.code && parsed.message)) {
+        throw new Error(parsed.error?.message || parsed.message);
+      }
+
+      const delta = getDelta(parsed);
+      if (delta) {
+        content += delta;
+        onToken(delta);
+      }
+      const reason = getFinishReason(parsed);
+      if (reason && reason !== 'null') {
+        finishReason = reason;
+      }
+      usage = getUsage(parsed) || usage;
+    }
+
+    if (!content) {
+      throw new Error('流式响应中没有内容');
+    }
+    return { content, finishReason, usage };
+  });
+}
+
+// 返回过 400 的不支持 JSON 模式的接口地址，之后的请求不再启用 JSON 模式
+// Qwen 所有模型共用一个地址，按"地址#模型"记录
+const jsonModeUnsupportedUrls = new Set<string>();
+
+// 错误信息中提到 response_format 或 JSON 模式（OpenAI 兼容接口的 error.param、DashScope 的 message 等）
+const JSON_MODE_ERROR_PATTERN = /response_format|json[_ ]?(mode|object)/i;
+
+/**
+ * 请求是否因为不支持 JSON 模式而失败：只有 400 且错误内容与 response_format 相关时才改用普通模式，
+ * 其他 400（如参数超出范围、内容过长）仍按原错误处理
+ */
+function isJsonModeUnsupported(error: any): boolean {
+  if (error.response?.status !== 400) return false;
+  const data = error.response.data;
+  const detail = typeof data === 'string' ? data : JSON.stringify(data ?? '');
+  return JSON_MODE_ERROR_PATTERN.test(detail);
+}
+
+async function callQwen(
+  messages: ChatMessage[],
+  config: LLMConfig,
+  params: GenerationParams,
+  options: LLMCallOptions
+): Promise<LLMCompletion> {
+  const { onToken, signal } = options;
   const apiKey = config.apiKey || process.env.QWEN_API_KEY;
   if (!apiKey) {
     throw new Error('请配置 Qwen API Key');
   }
 
+  const url = 'https://dashscope.aliyuncs.com/api/v1/services/aigc/text-generation/generation';
+  const model = config.model || 'qwen-turbo';
+  const jsonModeKey = `${url}#${model}`;
+  const body = {
+    model,
+    input: {
+      messages,
+    },
+    parameters: {
+      ...toOpenAIParams(params),
+      result_format: 'message',
+      ...(options.jsonMode && !jsonModeUnsupportedUrls.has(jsonModeKey) && { response_format: { type: 'json_object' } }),
+    },
+  };
+  const headers = {
+    'Authorization': `Bearer ${apiKey}`,
+    'Content-Type': 'application/json',
+  };
+
   try {
-    const response = await axios.post(
-      'https://dashscope.aliyuncs.com/api/v1/services/aigc/text-generation/generation',
-      {
-        model: config.model || 'qwen-turbo',
-        input: {
-          messages: [
-            {
-              role: 'user',
-              content: prompt,
-            },
-          ],
-        },
-        parameters: {
-          temperature: 0.7,
-          max_tokens: 2000,
-        },
-      },
-      {
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-      }
-    );
+    if (onToken) {
+      return await postStream(
+        url,
+        { ...body, parameters: { ...body.parameters, incremental_output: true } },
+        { ...headers, 'X-DashScope-SSE': 'enable' },
+        (data) => data.output?.choices?.[0]?.message?.content,
+        (data) => data.output?.choices?.[0]?.finish_reason,
+        (data) => parseQwenUsage(data.usage),
+        onToken,
+        options
+      );
+    }
+
+    let response: AxiosResponse;
+    try {
+      response = await postWithRetry(url, body, { headers }, options);
+    } catch (error: any) {
+      // 部分模型（如 qwen-long 或用户填写的其他模型）不支持 JSON 模式，去掉 response_format 重新请求
+      if (!body.parameters.response_format || !isJsonModeUnsupported(error)) throw error;
+      console.warn(`模型 ${model} 不支持 JSON 模式，改为普通模式请求`);
+      jsonModeUnsupportedUrls.add(jsonModeKey);
+      const { response_format, ...parameters } = body.parameters;
+      response = await postWithRetry(url, { ...body, parameters }, { headers }, options);
+    }
 
-    if (!response.data?.output?.choices?.[0]?.message?.content) {
+    const choice = response.data?.output?.choices?.[0];
+    if (!choice?.message?.content) {
       throw new Error('Qwen API 返回格式异常');
     }
-    return response.data.output.choices[0].message.content;
+    return { content: choice.message.content, finishReason: choice.finish_reason, usage: parseQwenUsage(response.data.usage) };
   } catch (error: any) {
-    if (error.response?.status === 401) {
+    if (axios.isCancel(error) || signal?.aborted) {
+      throw new Error(REQUEST_CANCELLED_MESSAGE);
+    } else if (error.response?.status === 401) {
       throw new Error('API Key 无效，请检查您的 Qwen API Key');
     } else if (error.response?.status === 429) {
       throw new Error('API 请求频率过高，请稍后再试');
@@ -344,40 +1643,96 @@ async function callQwen(prompt: string, config: LLMConfig): Promise<string> {
   }
 }
 
-async function callOpenAI(prompt: string, config: LLMConfig): Promise<string> {
+const OPENAI_CHAT_COMPLETIONS_URL = 'https://api.openai.com/v1/chat/completions';
+
+/**
+ * 调用 OpenAI 兼容的 chat completions 接口（OpenAI、本地模型和兼容 OpenAI 协议的第三方服务共用）
+ * 错误由调用方按提供商转换为对应的提示
+ */
+async function postChatCompletion(
+  url: string,
+  model: string,
+  messages: ChatMessage[],
+  params: GenerationParams,
+  headers: Record<string, string>,
+  options: LLMCallOptions,
+  timeoutMs: number = REQUEST_TIMEOUT_MS
+): Promise<LLMCompletion> {
+  const { onToken } = options;
+  const body = {
+    model,
+    messages,
+    ...toOpenAIParams(params),
+    ...(options.jsonMode && !jsonModeUnsupportedUrls.has(url) && { response_format: { type: 'json_object' } }),
+  };
+
+  if (onToken) {
+    return await postStream(
+      url,
+      {
+        ...body,
+        stream: true,
+        // 流式响应默认不返回用量，OpenAI 需要显式开启（其他兼容服务不一定支持该参数）
+        ...(url === OPENAI_CHAT_COMPLETIONS_URL && { stream_options: { include_usage: true } }),
+      },
+      headers,
+      (data) => data.choices?.[0]?.delta?.content,
+      (data) => data.choices?.[0]?.finish_reason,
+      (data) => parseOpenAIUsage(data.usage),
+      onToken,
+      options,
+      timeoutMs
+    );
+  }
+
+  let response: AxiosResponse;
+  try {
+    response = await postWithRetry(url, body, { headers, timeout: timeoutMs }, options);
+  } catch (error: any) {
+    // 部分兼容服务不支持 JSON 模式，去掉 response_format 重新请求，由结构校验保证输出格式
+    if (!body.response_format || !isJsonModeUnsupported(error)) throw error;
+    console.warn('接口不支持 JSON 模式，改为普通模式请求');
+    jsonModeUnsupportedUrls.add(url);
+    const { response_format, ...plainBody } = body;
+    response = await postWithRetry(url, plainBody, { headers, timeout: timeoutMs }, options);
+  }
+
+  const choice = response.data?.choices?.[0];
+  if (!choice?.message?.content) {
+    throw new Error('接口返回格式异常');
+  }
+  return { content: choice.message.content, finishReason: choice.finish_reason, usage: parseOpenAIUsage(response.data.usage) };
+}
+
+async function callOpenAI(
+  messages: ChatMessage[],
+  config: LLMConfig,
+  params: GenerationParams,
+  options: LLMCallOptions
+): Promise<LLMCompletion> {
   const apiKey = config.apiKey || process.env.OPENAI_API_KEY;
   if (!apiKey) {
     throw new Error('请配置 OpenAI API Key');
   }
 
+  const headers = {
+    'Authorization': `Bearer ${apiKey}`,
+    'Content-Type': 'application/json',
+  };
+
   try {
-    const response = await axios.post(
-      'https://api.openai.com/v1/chat/completions',
-      {
-        model: config.model || 'gpt-3.5-turbo',
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: 0.7,
-        max_tokens: 2000,
-      },
-      {
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-      }
+    return await postChatCompletion(
+      OPENAI_CHAT_COMPLETIONS_URL,
+      config.model || 'gpt-3.5-turbo',
+      messages,
+      params,
+      headers,
+      options
     );
-
-    if (!response.data?.choices?.[0]?.message?.content) {
-      throw new Error('OpenAI API 返回格式异常');
-    }
-    return response.data.choices[0].message.content;
   } catch (error: any) {
-    if (error.response?.status === 401) {
+    if (axios.isCancel(error) || options.signal?.aborted) {
+      throw new Error(REQUEST_CANCELLED_MESSAGE);
+    } else if (error.response?.status === 401) {
       throw new Error('API Key 无效，请检查您的 OpenAI API Key');
     } else if (error.response?.status === 429) {
       throw new Error('API 请求频率过高，请稍后再试');
@@ -386,13 +1741,136 @@ async function callOpenAI(prompt: string, config: LLMConfig): Promise<string> {
   }
 }
 
-async function callCustom(prompt: string, config: LLMConfig): Promise<string> {
+// 本地服务地址统一去掉末尾的 / 和 /v1，Ollama 与 llama.cpp 都在 /v1 下提供 OpenAI 兼容接口
+function getLocalBaseUrl(apiUrl?: string): string {
+  return (apiUrl || DEFAULT_LOCAL_URL).trim().replace(/\/+$/, '').replace(/\/v1$/, '');
+}
+
+function getLocalHeaders(apiKey?: string): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    ...(apiKey && { 'Authorization': `Bearer ${apiKey}` }),
+  };
+}
+
+// 连接不上本地服务时给出明确提示
+function getLocalErrorMessage(error: any, baseUrl: string): string {
+  if (error.code === 'ECONNREFUSED' || error.code === 'ENOTFOUND' || error.code === 'ECONNRESET') {
+    return `无法连接本地模型服务 ${baseUrl}，请确认 Ollama 或 llama.cpp 服务已启动`;
+  }
+  return error.response?.data?.error?.message || error.response?.data?.error || error.message;
+}
+
+/**
+ * 获取本地模型服务上可用的模型列表
+ * 优先使用 OpenAI 兼容的 /v1/models，旧版 Ollama 回退到 /api/tags
+ */
+export async function listLocalModels(apiUrl?: string, apiKey?: string): Promise<string[]> {
+  const baseUrl = getLocalBaseUrl(apiUrl);
+  const headers = getLocalHeaders(apiKey);
+  try {
+    const response = await axios.get(`${baseUrl}/v1/models`, { headers, timeout: 5000 });
+    if (Array.isArray(response.data?.data)) {
+      return response.data.data.map((model: any) => model.id).filter(Boolean);
+    }
+  } catch (error: any) {
+    if (!error.response || error.response.status !== 404) {
+      throw new Error(`获取本地模型列表失败: ${getLocalErrorMessage(error, baseUrl)}`);
+    }
+  }
+
+  try {
+    const response = await axios.get(`${baseUrl}/api/tags`, { headers, timeout: 5000 });
+    return (response.data?.models || []).map((model: any) => model.name || model.model).filter(Boolean);
+  } catch (error: any) {
+    throw new Error(`获取本地模型列表失败: ${getLocalErrorMessage(error, baseUrl)}`);
+  }
+}
+
+// 本地模型：调用 Ollama / llama.cpp 的 OpenAI 兼容接口，无需联网
+async function callLocal(
+  messages: ChatMessage[],
+  config: LLMConfig,
+  params: GenerationParams,
+  options: LLMCallOptions
+): Promise<LLMCompletion> {
+  if (!config.model) {
+    throw new Error('请选择本地模型');
+  }
+
+  const baseUrl = getLocalBaseUrl(config.apiUrl);
+  try {
+    return await postChatCompletion(
+      `${baseUrl}/v1/chat/completions`,
+      config.model,
+      messages,
+      params,
+      getLocalHeaders(config.apiKey),
+      options,
+      LOCAL_REQUEST_TIMEOUT_MS
+    );
+  } catch (error: any) {
+    if (axios.isCancel(error) || options.signal?.aborted) {
+      throw new Error(REQUEST_CANCELLED_MESSAGE);
+    } else if (error.response?.status === 404) {
+      throw new Error(`本地模型服务上没有模型 ${config.model}，请刷新模型列表后重新选择`);
+    }
+    throw new Error(`调用本地模型失败: ${getLocalErrorMessage(error, baseUrl)}`);
+  }
+}
+
+// 自定义 API 的 chat completions 地址：Base URL 后拼接 /chat/completions（已是完整地址时不重复拼接）
+function getChatCompletionsUrl(baseUrl: string): string {
+  const trimmed = baseUrl.trim().replace(/\/+$/, '');
+  return /\/chat\/completions$/.test(trimmed) ? trimmed : `${trimmed}/chat/completions`;
+}
+
+// 自定义 API（OpenAI 兼容模式）：DeepSeek、Moonshot、智谱、SiliconFlow、vLLM 等
+async function callCustomCompatible(
+  messages: ChatMessage[],
+  config: LLMConfig,
+  params: GenerationParams,
+  options: LLMCallOptions
+): Promise<LLMCompletion> {
+  if (!config.apiUrl) {
+    throw new Error('请配置自定义 API 的 Base URL');
+  }
+  if (!config.model) {
+    throw new Error('请配置模型名称');
+  }
+
+  try {
+    return await postChatCompletion(
+      getChatCompletionsUrl(config.apiUrl),
+      config.model,
+      messages,
+      params,
+      {
+        'Content-Type': 'application/json',
+        ...(config.apiKey && { 'Authorization': `Bearer ${config.apiKey}` }),
+      },
+      options
+    );
+  } catch (error: any) {
+    if (axios.isCancel(error) || options.signal?.aborted) {
+      throw new Error(REQUEST_CANCELLED_MESSAGE);
+    } else if (error.response?.status === 401) {
+      throw new Error('API Key 无效，请检查自定义 API 的 API Key');
+    } else if (error.response?.status === 429) {
+      throw new Error('API 请求频率过高，请稍后再试');
+    }
+    throw new Error(`调用自定义 API 失败: ${error.response?.data?.error?.message || error.message}`);
+  }
+}
+
+// 自定义 API（原始模式）：发送 { prompt, model }，兼容旧版配置
+async function callCustom(prompt: string, config: LLMConfig, options: LLMCallOptions): Promise<string> {
   if (!config.apiUrl) {
     throw new Error('请配置自定义 API URL');
   }
 
   try {
-    const response = await axios.post(
+    const response = await postWithRetry(
       config.apiUrl,
       {
         prompt,
@@ -403,7 +1881,8 @@ async function callCustom(prompt: string, config: LLMConfig): Promise<string> {
           'Content-Type': 'application/json',
           ...(config.apiKey && { 'Authorization': `Bearer ${config.apiKey}` }),
         },
-      }
+      },
+      options
     );
 
     // 假设自定义 API 返回格式为 { result: string } 或 { content: string } 或直接返回字符串
@@ -412,6 +1891,9 @@ async function callCustom(prompt: string, config: LLMConfig): Promise<string> {
     }
     return response.data.result || response.data.content || response.data.message || JSON.stringify(response.data);
   } catch (error: any) {
+    if (axios.isCancel(error) || options.signal?.aborted) {
+      throw new Error(REQUEST_CANCELLED_MESSAGE);
+    }
     throw new Error(`调用自定义 API 失败: ${error.message}`);
   }
 }
@@ -432,7 +1914,8 @@ export interface EditContentResult {
 export async function editContent(
   instruction: string,
   currentContent: string,
-  config: LLMConfig
+  config: LLMConfig,
+  options: LLMCallOptions = {}
 ): Promise<EditContentResult> {
   if (!instruction || !instruction.trim()) {
     throw new Error('编辑指令不能为空');
@@ -442,64 +1925,16 @@ export async function editContent(
     throw new Error('当前内容不能为空');
   }
 
-  const editPrompt = `你是一个专业的文档编辑助手。请根据用户的编辑指令，找出需要修改的部分。
-
-【当前文档内容】
-${currentContent}
-
-【用户编辑指令】
-${instruction}
-
-【任务要求】
-分析文档，找出需要修改的具体部分，以 JSON 格式返回修改列表。
+  const editPrompt = buildPrompt('edit', { currentContent, instruction }, options);
 
-【输出格式】
-请严格按照以下 JSON 格式输出，不要有其他内容：
-\`\`\`json
-{
-  "changes": [
-    {
-      "searchText": "要被替换的原始文本（必须是文档中存在的精确文本）",
-      "replaceText": "替换后的新文本",
-      "description": "这个修改的简要说明"
-    }
-  ],
-  "summary": "总体修改摘要（一句话）"
-}
-\`\`\`
-
-【重要规则】
-1. searchText 必须是文档中存在的精确文本，可以是一行或多行
-2. 每个修改应该是独立的，不要重叠
-3. 只返回需要修改的部分，不需要返回未改变的内容
-4. 如果没有需要修改的地方，返回空的 changes 数组`;
-
-  const result = await callLLMInternal(editPrompt, config);
-  
-  // 解析 JSON 结果
-  try {
-    // 尝试提取 JSON
-    let jsonStr = result;
-    const jsonMatch = result.match(/```json\s*([\s\S]*?)\s*```/);
-    if (jsonMatch) {
-      jsonStr = jsonMatch[1];
-    } else {
-      // 尝试直接解析
-      const startIdx = result.indexOf('{');
-      const endIdx = result.lastIndexOf('}');
-      if (startIdx !== -1 && endIdx !== -1) {
-        jsonStr = result.substring(startIdx, endIdx + 1);
-      }
-    }
-    
-    const parsed = JSON.parse(jsonStr);
-    return {
-      changes: parsed.changes || [],
-      summary: parsed.summary || '已完成编辑'
-    };
-  } catch (e) {
-    console.error('解析编辑结果失败:', e, result);
-    throw new Error('AI 返回的格式不正确，请重试');
-  }
+  const parsed = await callStructured(editPrompt, EDIT_RESULT_SCHEMA, config, { ...options, step: 'edit' });
+  return {
+    changes: parsed.changes.map((change: any) => ({
+      searchText: change.searchText,
+      replaceText: change.replaceText,
+      description: change.description || ''
+    })),
+    summary: parsed.summary || '已完成编辑'
+  };
 }
 
@@ -0,0 +1,99 @@
+import { TokenizerFamily } from '../utils/tokenCounter';
+
+// 模型信息：上下文长度、参考价格和分词器类型，用于发送前估算用量和费用
+// 价格为各提供商公开的标准价格（每百万 token），仅供参考，以实际账单为准
+
+export type Currency = 'CNY' | 'USD';
+
+export interface ModelPricing {
+  input: number;       // 每百万输入 token 的价格
+  output: number;      // 每百万输出 token 的价格
+  currency: Currency;
+}
+
+export interface ModelInfo {
+  model: string;
+  contextWindow?: number;   // 上下文长度（token），未知时不检查是否超出
+  pricing?: ModelPricing;   // 未知时不估算费用
+  tokenizer: TokenizerFamily;
+}
+
+// 用量费用
+export interface UsageCost {
+  amount: number;
+  currency: Currency;
+}
+
+interface KnownModel {
+  contextWindow: number;
+  pricing: ModelPricing;
+  tokenizer?: TokenizerFamily;   // 未设置时为 cjk
+}
+
+const cny = (input: number, output: number): ModelPricing => ({ input, output, currency: 'CNY' });
+const usd = (input: number, output: number): ModelPricing => ({ input, output, currency: 'USD' });
+
+// 已知模型，按名称前缀匹配（如 qwen-plus-latest、gpt-4o-2024-08-06），较长的前缀优先
+const KNOWN_MODELS: Record<string, KnownModel> = {
+  'qwen-turbo': { contextWindow: 131072, pricing: cny(0.3, 0.6) },
+  'qwen-plus': { contextWindow: 131072, pricing: cny(0.8, 2) },
+  'qwen-max': { contextWindow: 32768, pricing: cny(2.4, 9.6) },
+  'qwen-long': { contextWindow: 10000000, pricing: cny(0.5, 2) },
+  'gpt-3.5-turbo': { contextWindow: 16385, pricing: usd(0.5, 1.5), tokenizer: 'cl100k' },
+  'gpt-4-turbo': { contextWindow: 128000, pricing: usd(10, 30), tokenizer: 'cl100k' },
+  'gpt-4o': { contextWindow: 128000, pricing: usd(2.5, 10), tokenizer: 'o200k' },
+  'gpt-4o-mini': { contextWindow: 128000, pricing: usd(0.15, 0.6), tokenizer: 'o200k' },
+  'gpt-4.1': { contextWindow: 1047576, pricing: usd(2, 8), tokenizer: 'o200k' },
+  'gpt-4.1-mini': { contextWindow: 1047576, pricing: usd(0.4, 1.6), tokenizer: 'o200k' },
+  'deepseek-chat': { contextWindow: 65536, pricing: cny(2, 8) },
+  'deepseek-reasoner': { contextWindow: 65536, pricing: cny(4, 16) },
+  'moonshot-v1-8k': { contextWindow: 8192, pricing: cny(12, 12) },
+  'moonshot-v1-32k': { contextWindow: 32768, pricing: cny(24, 24) },
+  'moonshot-v1-128k': { contextWindow: 131072, pricing: cny(60, 60) },
+  'glm-4-flash': { contextWindow: 131072, pricing: cny(0, 0) },
+  'glm-4-plus': { contextWindow: 131072, pricing: cny(50, 50) },
+};
+
+const KNOWN_MODEL_NAMES = Object.keys(KNOWN_MODELS).sort((a, b) => b.length - a.length);
+
+// 各提供商未指定模型时使用的默认模型
+const DEFAULT_MODELS: Record<string, string> = {
+  qwen: 'qwen-turbo',
+  openai: 'gpt-3.5-turbo',
+};
+
+// 未收录的模型按名称推断分词器
+function guessTokenizer(model: string): TokenizerFamily {
+  if (/^(gpt-4o|gpt-4\.1|o\d)/.test(model)) return 'o200k';
+  if (/^gpt-/.test(model)) return 'cl100k';
+  return 'cjk';
+}
+
+/**
+ * 获取当前配置所用模型的信息
+ * 本地模型不收费，上下文长度取决于服务端设置，不做检查
+ */
+export function getModelInfo(config: { provider: string; model?: string }): ModelInfo {
+  const model = (config.model || DEFAULT_MODELS[config.provider] || '').trim();
+  const name = model.toLowerCase();
+  const known = KNOWN_MODEL_NAMES.find(prefix => name.startsWith(prefix));
+  const info = known ? KNOWN_MODELS[known] : undefined;
+
+  if (config.provider === 'local') {
+    return { model, pricing: cny(0, 0), tokenizer: info?.tokenizer || guessTokenizer(name) };
+  }
+  return {
+    model,
+    contextWindow: info?.contextWindow,
+    pricing: info?.pricing,
+    tokenizer: info ? info.tokenizer || 'cjk' : guessTokenizer(name),
+  };
+}
+
+// 按价格计算用量费用
+export function calculateCost(usage: { inputTokens: number; outputTokens: number }, pricing: ModelPricing): UsageCost {
+  return {
+    amount: (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) / 1000000,
+    currency: pricing.currency,
+  };
+}
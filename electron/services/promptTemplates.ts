@@ -0,0 +1,368 @@
+// 提示词模版：各步骤的默认提示词、模版变量替换，以及用户模版库的读写
+// 模版中的 {{变量名}} 在调用时替换为实际内容，未知的变量保持原样
+import * as fs from 'fs/promises';
+
+// 使用提示词模版的步骤
+export type PromptStep = 'format' | 'questions' | 'answer' | 'final' | 'direct' | 'merge' | 'edit' | 'chat';
+
+// 各步骤当前使用的模版内容，未设置的步骤使用默认提示词
+export type PromptSet = Partial<Record<PromptStep, string>>;
+
+export interface PromptTemplate {
+  id: string;
+  step: PromptStep;
+  name: string;
+  content: string;
+  builtin?: boolean;       // 内置模版：不能删除，可以恢复默认内容
+}
+
+// 用户模版库，保存在用户数据目录
+export interface PromptTemplateLibrary {
+  templates: PromptTemplate[];
+  active: PromptSet;       // 各步骤选用的模版 id
+}
+
+// 模版变量说明
+export interface PromptVariable {
+  name: string;
+  description: string;
+}
+
+// 步骤说明，设置页面中展示
+export interface PromptStepInfo {
+  step: PromptStep;
+  name: string;
+  description: string;
+  variables: PromptVariable[];
+  json?: boolean;          // 要求输出 JSON，输出结构会被校验
+}
+
+const USER_PROMPT: PromptVariable = { name: 'userPrompt', description: '用户输入的作业要求' };
+const FILE_CONTENT: PromptVariable = { name: 'fileContent', description: '附件内容（带编号和文件名标记）' };
+const CHUNK_NOTE: PromptVariable = { name: 'chunkNote', description: '附件分块处理时的说明，不分块时为空' };
+
+export const PROMPT_STEPS: PromptStepInfo[] = [
+  { step: 'format', name: '格式提取', description: '从附件和作业要求中提取格式模版', variables: [USER_PROMPT, FILE_CONTENT, CHUNK_NOTE], json: true },
+  { step: 'questions', name: '题目提取', description: '从附件中提取所有题目', variables: [USER_PROMPT, FILE_CONTENT, CHUNK_NOTE], json: true },
+  {
+    step: 'answer',
+    name: '题目解答',
+    description: '单独解答每道题目',
+    variables: [
+      USER_PROMPT,
+      { name: 'fileContent', description: '题目所在分块的附件内容' },
+      { name: 'questionId', description: '题号' },
+      { name: 'questionType', description: '题目类型' },
+      { name: 'question', description: '题目原文' },
+    ],
+    json: true,
+  },
+  {
+    step: 'final',
+    name: '文档整合',
+    description: '按格式模版整合答案，生成最终 Markdown 文档',
+    variables: [
+      { name: 'formatTemplate', description: '格式模版（JSON）' },
+      { name: 'questionsAnswer', description: '题目与答案（JSON）' },
+      USER_PROMPT,
+    ],
+  },
+  { step: 'direct', name: '直接生成', description: '没有附件时根据提示词直接生成文档', variables: [{ name: 'userPrompt', description: '用户输入的需求' }] },
+  {
+    step: 'merge',
+    name: '分块合并',
+    description: '附件分块处理后，结果无法直接合并时交给模型合并',
+    variables: [
+      { name: 'partCount', description: '分块数' },
+      { name: 'target', description: '合并的内容（作业格式模版或题目列表）' },
+      { name: 'parts', description: '各分块的提取结果' },
+    ],
+    json: true,
+  },
+  {
+    step: 'edit',
+    name: 'Edit 模式',
+    description: '根据编辑指令找出需要修改的部分',
+    variables: [
+      { name: 'currentContent', description: '编辑器中的当前文档' },
+      { name: 'instruction', description: '用户的编辑指令' },
+    ],
+    json: true,
+  },
+  { step: 'chat', name: 'Ask 模式', description: '对话的系统提示词，附件和当前文档会自动追加在后面', variables: [] },
+];
+
+export const DEFAULT_PROMPTS: Record<PromptStep, string> = {
+  // 步骤1：提取作业格式要求
+  format: `你是一个作业格式分析专家。请仔细分析以下附件内容和用户输入，提取出作业的格式要求。附件可能包括作业要求、格式模版和参考资料，请结合各附件的作用进行分析。
+
+【用户输入的作业要求】
+{{userPrompt}}
+
+【附件内容】（每个附件以 <<<附件 N：文件名>>> 开头）
+{{fileContent}}
+{{chunkNote}}
+【任务要求】
+请提取并输出作业的格式模版，包括但不限于：
+1. 作业标题格式（如：标题层级、编号方式）
+2. 整体结构要求（如：需要哪些部分，顺序如何）
+3. 排版要求（如：字体、字号、段落格式等，如有提及）
+4. 特殊格式要求（如：封面、目录、参考文献格式等）
+5. 页面布局要求（如：页边距、行距等，如有提及）
+
+请以 JSON 格式输出格式模版，格式如下：
+\`\`\`json
+{
+  "title": "作业标题格式描述",
+  "structure": ["结构部分1", "结构部分2", ...],
+  "headingStyle": "标题层级描述",
+  "numberingStyle": "编号方式描述",
+  "specialRequirements": ["特殊要求1", "特殊要求2", ...],
+  "layoutRequirements": "页面布局要求",
+  "otherFormats": "其他格式说明"
+}
+\`\`\`
+
+如果某些信息在文档中没有明确提及，请根据常规学术作业格式进行合理推断并标注"(推断)"。`,
+  // 步骤2（阶段1）：提取作业题目
+  questions: `你是一个专业的作业分析助手。请仔细分析以下附件内容和用户输入，提取出所有作业题目。附件可能包括作业要求、格式模版和参考资料，请区分各附件的作用。
+
+【用户输入的作业要求】
+{{userPrompt}}
+
+【附件内容】（每个附件以 <<<附件 N：文件名>>> 开头）
+{{fileContent}}
+{{chunkNote}}
+【任务要求】
+识别并列出附件中的所有题目/问题/任务，只提取题目，不需要解答。题目原文要完整，包括题目中给出的条件、数据和代码。
+
+请按以下 JSON 格式输出：
+\`\`\`json
+{
+  "questions": [
+    {
+      "id": 1,
+      "question": "题目1原文",
+      "type": "题目类型（如：简答题、论述题、计算题、分析题、编程题等）"
+    }
+  ],
+  "summary": "作业整体概述"
+}
+\`\`\`
+
+如果用户输入本身就是题目（附件只是参考资料），请把用户输入的要求作为题目提取。`,
+  // 步骤2（阶段2）：解答单道题目
+  answer: `你是一个专业的作业解答助手。请结合以下附件内容，针对指定的题目给出详细、专业、准确的答案。
+
+【用户输入的作业要求】
+{{userPrompt}}
+
+【附件内容】（每个附件以 <<<附件 N：文件名>>> 开头）
+{{fileContent}}
+
+【需要解答的题目】（第 {{questionId}} 题，{{questionType}}）
+{{question}}
+
+请按以下 JSON 格式输出：
+\`\`\`json
+{
+  "answer": "详细答案",
+  "keyPoints": ["要点1", "要点2", ...]
+}
+\`\`\`
+
+【注意事项】
+- 只解答这一道题，答案应该专业、准确、有深度
+- 适当引用相关理论、概念或数据支持，引用参考资料时注明来自哪个附件
+- 如有计算题，需展示计算过程
+- 如附件包含源代码或 Notebook，题目可能是解释、补全或修改代码，答案中的代码需使用 Markdown 代码块并标注语言
+- 保持逻辑清晰，条理分明`,
+  // 步骤3：整合格式和答案生成最终 Markdown
+  final: `你是一个专业的文档排版专家。请根据以下作业格式模版和题目答案，生成一份格式规范、内容完整的作业文档。
+
+【作业格式模版】
+{{formatTemplate}}
+
+【题目与答案】
+{{questionsAnswer}}
+
+【用户原始要求】
+{{userPrompt}}
+
+【任务要求】
+请将以上内容整合，生成一份完整的 Markdown 格式作业文档。要求：
+1. 严格按照格式模版的要求进行排版
+2. 确保所有题目和答案都被包含
+3. 使用规范的 Markdown 语法
+4. 添加适当的标题层级和格式
+5. 保持内容的逻辑连贯性
+6. 答案中的代码保持代码块格式，不要改写为普通段落
+
+【输出格式】
+直接输出完整的 Markdown 文档内容，不需要代码块包裹。文档应该：
+- 有清晰的标题和层级结构
+- 每道题目和答案排版整齐
+- 如有需要，包含封面信息、目录等
+- 格式美观，便于后续转换为 Word 或 PDF`,
+  // 直接生成：没有附件时根据提示词直接生成文档
+  direct: `你是一个专业的文档生成助手。请根据用户的需求，生成高质量的内容。
+
+【用户需求】
+{{userPrompt}}
+
+【任务要求】
+请根据用户的需求，生成完整、专业、格式规范的内容。要求：
+1. 内容准确、专业、有深度
+2. 使用规范的 Markdown 语法
+3. 结构清晰，层次分明
+4. 适当使用标题、列表、代码块等格式化元素
+5. 如涉及数学公式，使用 LaTeX 语法（如 $E=mc^2$）
+6. 如涉及代码，使用正确的代码块标记
+
+【输出格式】
+直接输出完整的 Markdown 文档内容，不需要代码块包裹。`,
+  // 合并分块结果：无法直接合并时交给 LLM
+  merge: `你是一个信息整合助手。以下是对同一份作业资料分 {{partCount}} 个部分分别提取的{{target}}。
+
+【各部分结果】
+{{parts}}
+
+【任务要求】
+请将各部分结果合并为一份完整的{{target}}：
+1. 去除重复的内容，相同的题目只保留一次
+2. 保留各部分中所有不同的内容，不要遗漏
+3. 按原文顺序排列，题目重新连续编号
+4. 使用与各部分结果相同的 JSON 格式输出`,
+  // Edit 模式：找出需要修改的部分
+  edit: `你是一个专业的文档编辑助手。请根据用户的编辑指令，找出需要修改的部分。
+
+【当前文档内容】
+{{currentContent}}
+
+【用户编辑指令】
+{{instruction}}
+
+【任务要求】
+分析文档，找出需要修改的具体部分，以 JSON 格式返回修改列表。
+
+【输出格式】
+请严格按照以下 JSON 格式输出，不要有其他内容：
+\`\`\`json
+{
+  "changes": [
+    {
+      "searchText": "要被替换的原始文本（必须是文档中存在的精确文本）",
+      "replaceText": "替换后的新文本",
+      "description": "这个修改的简要说明"
+    }
+  ],
+  "summary": "总体修改摘要（一句话）"
+}
+\`\`\`
+
+【重要规则】
+1. searchText 必须是文档中存在的精确文本，可以是一行或多行
+2. 每个修改应该是独立的，不要重叠
+3. 只返回需要修改的部分，不需要返回未改变的内容
+4. 如果没有需要修改的地方，返回空的 changes 数组`,
+  // Ask 模式：对话的系统提示词，附件和当前文档会追加在后面
+  chat: `你是一个耐心、专业的学习助手，负责回答用户关于作业和资料的问题。
+- 以对话的方式直接回答问题，不要生成完整的作业文档
+- 回答时结合下面提供的附件和当前文档，引用时注明来自哪个附件
+- 资料中没有相关信息时，可以根据专业知识回答，并说明这一点
+- 使用 Markdown 格式，代码使用代码块并标注语言`,
+};
+
+/**
+ * 替换模版中的 {{变量名}}，只替换一遍，变量值中的 {{...}} 不会被再次替换
+ */
+export function renderPrompt(template: string, variables: Record<string, string | number>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    variables[name] !== undefined ? String(variables[name]) : match
+  );
+}
+
+const BUILTIN_ID_PREFIX = 'default-';
+
+function createBuiltinTemplate(step: PromptStep, content?: string): PromptTemplate {
+  return {
+    id: `${BUILTIN_ID_PREFIX}${step}`,
+    step,
+    name: '默认模版',
+    content: content ?? DEFAULT_PROMPTS[step],
+    builtin: true,
+  };
+}
+
+function isPromptStep(step: any): step is PromptStep {
+  return typeof step === 'string' && step in DEFAULT_PROMPTS;
+}
+
+/**
+ * 整理模版库：补全缺失的内置模版，丢弃无效的模版和指向不存在模版的选择
+ */
+export function normalizeTemplateLibrary(library?: Partial<PromptTemplateLibrary> | null): PromptTemplateLibrary {
+  const stored = (Array.isArray(library?.templates) ? library!.templates : []).filter(template =>
+    template && typeof template.id === 'string' && isPromptStep(template.step) && typeof template.content === 'string'
+  );
+
+  const templates: PromptTemplate[] = [];
+  for (const { step } of PROMPT_STEPS) {
+    const override = stored.find(template => template.builtin && template.step === step);
+    templates.push(createBuiltinTemplate(step, override?.content));
+    templates.push(...stored
+      .filter(template => !template.builtin && template.step === step)
+      .map(template => ({ id: template.id, step, name: template.name || '未命名模版', content: template.content })));
+  }
+
+  const active: PromptSet = {};
+  for (const [step, id] of Object.entries(library?.active || {})) {
+    if (isPromptStep(step) && templates.some(template => template.id === id && template.step === step)) {
+      active[step] = id;
+    }
+  }
+  return { templates, active };
+}
+
+// 读取模版库，文件不存在时返回只有内置模版的模版库
+export async function loadTemplateLibrary(filePath: string): Promise<PromptTemplateLibrary> {
+  try {
+    const data = await fs.readFile(filePath, 'utf-8');
+    return normalizeTemplateLibrary(JSON.parse(data));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return normalizeTemplateLibrary(null);
+    }
+    throw new Error(`读取提示词模版失败: ${error.message || error}`);
+  }
+}
+
+/**
+ * 保存模版库，内置模版只保存修改过的内容，未修改的内置模版随应用更新
+ */
+export async function saveTemplateLibrary(filePath: string, library: PromptTemplateLibrary): Promise<PromptTemplateLibrary> {
+  const normalized = normalizeTemplateLibrary(library);
+  const data = {
+    templates: normalized.templates.filter(template => !template.builtin || template.content !== DEFAULT_PROMPTS[template.step]),
+    active: normalized.active,
+  };
+  try {
+    await fs.writeFile(filePath, JSON.stringify(data, null, 2), 'utf-8');
+  } catch (error: any) {
+    throw new Error(`保存提示词模版失败: ${error.message || error}`);
+  }
+  return normalized;
+}
+
+// 各步骤选用的模版内容
+export function getActivePrompts(library: PromptTemplateLibrary): PromptSet {
+  const prompts: PromptSet = {};
+  for (const { step } of PROMPT_STEPS) {
+    const id = library.active[step] || `${BUILTIN_ID_PREFIX}${step}`;
+    const template = library.templates.find(item => item.id === id);
+    if (template) {
+      prompts[step] = template.content;
+    }
+  }
+  return prompts;
+}
@@ -0,0 +1,232 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { LLMCallTrace, TokenUsage } from './llmService';
+
+// 请求记录：每次 Build、Ask、Edit 等请求的所有模型调用（提示词、响应、模型、参数、耗时、重试和错误）保存为一个文件
+// 保存在调试目录中，按保留策略自动删除过期和超出数量、容量的记录
+
+export type TraceKind = 'build' | 'ask' | 'edit' | 'regenerate' | 'call';
+
+export interface RequestTrace {
+  id: string;
+  kind: TraceKind;
+  status: 'running' | 'success' | 'error' | 'cancelled';
+  prompt: string;            // 用户输入的要求或问题
+  attachments: string[];     // 附件文件名
+  provider: string;
+  model: string;
+  startedAt: string;
+  elapsedMs?: number;
+  error?: string;
+  calls: LLMCallTrace[];
+}
+
+// 记录列表中显示的摘要
+export interface TraceSummary {
+  id: string;
+  kind: TraceKind;
+  status: RequestTrace['status'];
+  prompt: string;
+  provider: string;
+  model: string;
+  startedAt: string;
+  elapsedMs?: number;
+  error?: string;
+  callCount: number;
+  retryCount: number;
+  cachedCount: number;
+  usage?: TokenUsage;
+}
+
+// 保留策略：超过天数、条数或总容量时从最早的文件开始删除
+export interface TraceRetention {
+  maxAgeDays: number;
+  maxFiles: number;
+  maxSizeMB: number;
+}
+
+export const DEFAULT_TRACE_RETENTION: TraceRetention = {
+  maxAgeDays: 30,
+  maxFiles: 200,
+  maxSizeMB: 200,
+};
+
+const TRACE_FILE_PREFIX = 'trace-';
+const TRACE_ID_PATTERN = /^[\w-]+$/;
+const SUMMARY_PROMPT_LENGTH = 200;
+
+const getTracePath = (dir: string, id: string) => path.join(dir, `${TRACE_FILE_PREFIX}${id}.json`);
+// 调试目录中还可能有早期版本或用户自己保存的文件，只处理本模块保存的记录文件
+const isTraceFile = (name: string) => name.startsWith(TRACE_FILE_PREFIX) && name.endsWith('.json');
+
+/**
+ * 创建请求记录，requestId 为渲染进程生成的请求 ID（未提供时按时间生成）
+ */
+export function createTrace(
+  kind: TraceKind,
+  requestId: string | undefined,
+  info: { prompt: string; attachments?: { name: string }[]; config: { provider: string; model?: string } }
+): RequestTrace {
+  const id = requestId && TRACE_ID_PATTERN.test(requestId) ? requestId : `${kind}-${Date.now()}`;
+  return {
+    id,
+    kind,
+    status: 'running',
+    prompt: info.prompt,
+    attachments: (info.attachments || []).map(attachment => attachment.name),
+    provider: info.config.provider,
+    model: info.config.model || '',
+    startedAt: new Date().toISOString(),
+    calls: [],
+  };
+}
+
+// 请求结束时记录状态和总耗时
+export function finishTrace(trace: RequestTrace, status: 'success' | 'error' | 'cancelled', error?: string): void {
+  trace.status = status;
+  trace.elapsedMs = Date.now() - Date.parse(trace.startedAt);
+  if (error) trace.error = error;
+}
+
+// 保存记录并执行保留策略；保存失败不影响请求结果
+export async function saveTrace(dir: string, trace: RequestTrace, retention: TraceRetention = DEFAULT_TRACE_RETENTION): Promise<void> {
+  try {
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(getTracePath(dir, trace.id), JSON.stringify(trace, null, 2), 'utf-8');
+    await applyRetention(dir, retention);
+  } catch (error: any) {
+    console.warn('保存请求记录失败:', error.message || error);
+  }
+}
+
+function summarize(trace: RequestTrace): TraceSummary {
+  let usage: TokenUsage | undefined;
+  for (const call of trace.calls) {
+    if (call.usage) {
+      usage = {
+        inputTokens: (usage?.inputTokens ?? 0) + call.usage.inputTokens,
+        outputTokens: (usage?.outputTokens ?? 0) + call.usage.outputTokens,
+      };
+    }
+  }
+  return {
+    id: trace.id,
+    kind: trace.kind,
+    status: trace.status,
+    prompt: trace.prompt.slice(0, SUMMARY_PROMPT_LENGTH),
+    provider: trace.provider,
+    model: trace.model,
+    startedAt: trace.startedAt,
+    elapsedMs: trace.elapsedMs,
+    error: trace.error,
+    callCount: trace.calls.length,
+    retryCount: trace.calls.reduce((sum, call) => sum + call.retries.length, 0),
+    cachedCount: trace.calls.filter(call => call.cached).length,
+    usage,
+  };
+}
+
+// 读取所有记录，无法解析的文件跳过
+async function readTraces(dir: string): Promise<RequestTrace[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(dir);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const traces: RequestTrace[] = [];
+  for (const name of names.filter(isTraceFile)) {
+    try {
+      traces.push(JSON.parse(await fs.readFile(path.join(dir, name), 'utf-8')));
+    } catch {
+      // 文件损坏或正在写入
+    }
+  }
+  return traces;
+}
+
+/**
+ * 列出记录摘要（最新的在前），query 不为空时只返回提示词、响应、模型或错误信息中包含该文本的记录
+ */
+export async function listTraces(dir: string, query: string = ''): Promise<TraceSummary[]> {
+  let traces: RequestTrace[];
+  try {
+    traces = await readTraces(dir);
+  } catch (error: any) {
+    throw new Error(`读取请求记录失败: ${error.message || error}`);
+  }
+
+  const keyword = query.trim().toLowerCase();
+  return traces
+    .filter(trace => !keyword || JSON.stringify(trace).toLowerCase().includes(keyword))
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+    .map(summarize);
+}
+
+export async function loadTrace(dir: string, id: string): Promise<RequestTrace> {
+  if (!TRACE_ID_PATTERN.test(id)) {
+    throw new Error('无效的记录 ID');
+  }
+  try {
+    return JSON.parse(await fs.readFile(getTracePath(dir, id), 'utf-8'));
+  } catch (error: any) {
+    throw new Error(error.code === 'ENOENT' ? '记录不存在或已被删除' : `读取请求记录失败: ${error.message || error}`);
+  }
+}
+
+/**
+ * 执行保留策略：删除超过保留天数的记录，再按时间从早到晚删除超出条数和容量上限的记录
+ * 只处理 trace- 开头的记录文件，调试目录中的其他文件不受影响，返回删除的文件数
+ */
+export async function applyRetention(dir: string, retention: TraceRetention = DEFAULT_TRACE_RETENTION): Promise<number> {
+  let names: string[];
+  try {
+    names = await fs.readdir(dir);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return 0;
+    throw error;
+  }
+
+  const files: { filePath: string; size: number; mtimeMs: number }[] = [];
+  for (const name of names.filter(isTraceFile)) {
+    const filePath = path.join(dir, name);
+    try {
+      const stat = await fs.stat(filePath);
+      if (stat.isFile()) files.push({ filePath, size: stat.size, mtimeMs: stat.mtimeMs });
+    } catch {
+      // 文件已被删除
+    }
+  }
+
+  // 最新的在前，保留满足所有限制的部分
+  files.sort((a, b) => b.mtimeMs - a.mtimeMs);
+  const minMtime = Date.now() - retention.maxAgeDays * 24 * 60 * 60 * 1000;
+  const maxBytes = retention.maxSizeMB * 1024 * 1024;
+  let keptCount = 0;
+  let keptBytes = 0;
+  let removed = 0;
+  for (const file of files) {
+    if (file.mtimeMs < minMtime || keptCount >= retention.maxFiles || keptBytes + file.size > maxBytes) {
+      await fs.rm(file.filePath, { force: true });
+      removed++;
+    } else {
+      keptCount++;
+      keptBytes += file.size;
+    }
+  }
+  return removed;
+}
+
+// 删除所有请求记录，返回删除的条数
+export async function clearTraces(dir: string): Promise<number> {
+  try {
+    const names = (await fs.readdir(dir)).filter(isTraceFile);
+    await Promise.all(names.map(name => fs.rm(path.join(dir, name), { force: true })));
+    return names.length;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return 0;
+    throw new Error(`清空请求记录失败: ${error.message || error}`);
+  }
+}
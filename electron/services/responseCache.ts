@@ -0,0 +1,155 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+// 模型响应缓存：相同的请求（提供商、模型、生成参数和提示词均相同）直接返回保存的响应
+// 每条响应按请求内容的哈希值保存为一个文件，过期的条目在读取时删除，超出容量时删除最久未使用的条目
+
+// 缓存设置（保存在 LLM 配置中）
+export interface ResponseCacheSettings {
+  enabled?: boolean;
+  ttlHours?: number;      // 缓存有效期（小时）
+  maxSizeMB?: number;     // 缓存目录容量上限（MB）
+}
+
+export const DEFAULT_CACHE_SETTINGS: Required<ResponseCacheSettings> = {
+  enabled: true,
+  ttlHours: 24,
+  maxSizeMB: 100,
+};
+
+// 调用模型时使用的缓存选项
+export interface ResponseCacheOptions {
+  dir: string;
+  ttlMs: number;
+  maxBytes: number;
+}
+
+// 缓存条目
+interface CacheEntry {
+  createdAt: number;
+  model?: string;
+  content: string;
+}
+
+export interface ResponseCacheStats {
+  entries: number;
+  bytes: number;
+}
+
+const CACHE_FILE_EXT = '.json';
+
+/**
+ * 按设置生成缓存选项，缓存关闭时返回 undefined
+ * 未设置或无效的项使用默认值
+ */
+export function resolveCacheOptions(dir: string, settings: ResponseCacheSettings = {}): ResponseCacheOptions | undefined {
+  if (!(settings.enabled ?? DEFAULT_CACHE_SETTINGS.enabled)) return undefined;
+  const positive = (value: number | undefined, fallback: number) =>
+    typeof value === 'number' && value > 0 ? value : fallback;
+  return {
+    dir,
+    ttlMs: positive(settings.ttlHours, DEFAULT_CACHE_SETTINGS.ttlHours) * 60 * 60 * 1000,
+    maxBytes: positive(settings.maxSizeMB, DEFAULT_CACHE_SETTINGS.maxSizeMB) * 1024 * 1024,
+  };
+}
+
+// 请求内容的哈希值，作为缓存文件名
+export function getCacheKey(request: any): string {
+  return createHash('sha256').update(JSON.stringify(request)).digest('hex');
+}
+
+const getEntryPath = (dir: string, key: string) => path.join(dir, `${key}${CACHE_FILE_EXT}`);
+
+/**
+ * 读取缓存的响应，不存在或已过期时返回 null
+ * 命中时更新文件的修改时间，清理容量时按修改时间删除最久未使用的条目
+ */
+export async function readCachedResponse(cache: ResponseCacheOptions, key: string): Promise<string | null> {
+  const filePath = getEntryPath(cache.dir, key);
+  try {
+    const entry: CacheEntry = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    if (typeof entry.content !== 'string' || Date.now() - entry.createdAt > cache.ttlMs) {
+      await fs.rm(filePath, { force: true });
+      return null;
+    }
+    const now = new Date();
+    await fs.utimes(filePath, now, now);
+    return entry.content;
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      console.warn('读取响应缓存失败:', error.message || error);
+    }
+    return null;
+  }
+}
+
+// 保存响应，写入后检查缓存目录容量；保存失败不影响本次请求
+export async function writeCachedResponse(cache: ResponseCacheOptions, key: string, content: string, model?: string): Promise<void> {
+  const entry: CacheEntry = { createdAt: Date.now(), model, content };
+  try {
+    await fs.mkdir(cache.dir, { recursive: true });
+    await fs.writeFile(getEntryPath(cache.dir, key), JSON.stringify(entry), 'utf-8');
+    await pruneCache(cache);
+  } catch (error: any) {
+    console.warn('保存响应缓存失败:', error.message || error);
+  }
+}
+
+// 列出所有缓存文件及其大小和修改时间，目录不存在时返回空列表
+async function listEntries(dir: string): Promise<{ filePath: string; size: number; mtimeMs: number }[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(dir);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const entries: { filePath: string; size: number; mtimeMs: number }[] = [];
+  for (const name of names.filter(name => name.endsWith(CACHE_FILE_EXT))) {
+    const filePath = path.join(dir, name);
+    try {
+      const stat = await fs.stat(filePath);
+      entries.push({ filePath, size: stat.size, mtimeMs: stat.mtimeMs });
+    } catch {
+      // 同时进行的清理可能已删除该文件
+    }
+  }
+  return entries;
+}
+
+// 超出容量上限时从最久未使用的条目开始删除
+async function pruneCache(cache: ResponseCacheOptions): Promise<void> {
+  const entries = await listEntries(cache.dir);
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  if (total <= cache.maxBytes) return;
+
+  entries.sort((a, b) => a.mtimeMs - b.mtimeMs);
+  for (const entry of entries) {
+    if (total <= cache.maxBytes) break;
+    await fs.rm(entry.filePath, { force: true });
+    total -= entry.size;
+  }
+}
+
+// 缓存条目数和占用空间
+export async function getResponseCacheStats(dir: string): Promise<ResponseCacheStats> {
+  try {
+    const entries = await listEntries(dir);
+    return { entries: entries.length, bytes: entries.reduce((sum, entry) => sum + entry.size, 0) };
+  } catch (error: any) {
+    throw new Error(`读取响应缓存失败: ${error.message || error}`);
+  }
+}
+
+// 清空缓存，返回清空前的统计
+export async function clearResponseCache(dir: string): Promise<ResponseCacheStats> {
+  const stats = await getResponseCacheStats(dir);
+  try {
+    await fs.rm(dir, { recursive: true, force: true });
+  } catch (error: any) {
+    throw new Error(`清空响应缓存失败: ${error.message || error}`);
+  }
+  return stats;
+}
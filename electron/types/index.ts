@@ -1,3 +1,5 @@
+import type { PageInfo, PageRange } from '../utils/pdfParser';
+
 // ==================== 排版设置类型 ====================
 
 export interface ParagraphStyle {
@@ -28,10 +30,11 @@ export interface FormatSettings {
 // ==================== LLM 配置类型 ====================
 
 export interface LLMConfig {
-  provider: 'qwen' | 'openai' | 'custom';
+  provider: 'qwen' | 'openai' | 'custom' | 'local';
   apiKey?: string;
-  apiUrl?: string;
+  apiUrl?: string;       // 自定义 API 地址（OpenAI 兼容模式下为 Base URL）；本地模型时为服务地址
   model?: string;
+  customMode?: 'openai' | 'raw';   // 自定义 API 的接口格式，未设置时为原始模式
 }
 
 // ==================== 处理结果类型 ====================
@@ -82,3 +85,38 @@ export interface ExportResult {
   path: string;
   buffer?: Buffer;
 }
+
+// ==================== 文件提取类型 ====================
+
+export interface ExtractOptions {
+  // 需要保留结构的 Markdown（导入编辑器时使用），可能会保存文档中的嵌入图片
+  markdown?: boolean;
+  // 嵌入图片的保存目录
+  imageDir?: string;
+  // PDF 只提取指定页码范围
+  pageRange?: PageRange;
+  // OCR 语言数据目录，未指定时不进行 OCR
+  ocrDataDir?: string;
+  // 文本文件的编码，未指定时自动检测
+  encoding?: string;
+}
+
+// 所有提取器统一返回的文档结构
+export interface ExtractedDocument {
+  text: string;            // 传给 LLM 的文本内容
+  markdown?: string;       // 保留结构的 Markdown，提取器支持时提供
+  title?: string;
+  pages?: PageInfo[];      // 分页文档的每页元数据
+  images: string[];        // 保存的图片（相对路径）
+  warnings: string[];
+  encoding?: string;       // 文本文件实际使用的编码
+}
+
+// 文件提取器：声明支持的格式并负责提取内容
+export interface FileExtractor {
+  name: string;            // 格式名称，同名提取器在打开对话框中合并为一个筛选项
+  extensions: string[];    // 扩展名（不含点）
+  mimeTypes: string[];
+  importable?: boolean;    // 是否可导入到编辑器
+  extract(buffer: Buffer, filePath: string, options: ExtractOptions): Promise<ExtractedDocument>;
+}
@@ -0,0 +1,119 @@
+// 源代码与 Jupyter Notebook 解析工具：源文件输出为带语言标记的代码块，Notebook 逐单元格转换为 Markdown
+
+// 扩展名到代码块语言标记的映射
+export const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  py: 'python',
+  java: 'java',
+  c: 'c',
+  h: 'c',
+  cpp: 'cpp',
+  cc: 'cpp',
+  cxx: 'cpp',
+  hpp: 'cpp',
+  cs: 'csharp',
+  js: 'javascript',
+  ts: 'typescript',
+  go: 'go',
+  rs: 'rust',
+  kt: 'kotlin',
+  swift: 'swift',
+  r: 'r',
+  sql: 'sql',
+  sh: 'bash',
+};
+
+// 单个输出的最大长度，超出部分截断（避免训练日志等大量输出占满上下文）
+const MAX_OUTPUT_LENGTH = 2000;
+
+/**
+ * 生成 Markdown 代码块
+ * 代码中含有 ``` 时使用更长的围栏，避免提前闭合
+ */
+export function formatCodeBlock(code: string, language: string = ''): string {
+  const longestRun = Math.max(2, ...(code.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  return `${fence}${language}\n${code.replace(/\s+$/, '')}\n${fence}`;
+}
+
+// Notebook 中的多行文本可能是字符串或字符串数组
+function joinSource(source: string | string[] | undefined): string {
+  return Array.isArray(source) ? source.join('') : source || '';
+}
+
+// 去掉错误回溯中的 ANSI 颜色控制符
+function stripAnsi(text: string): string {
+  return text.replace(/\u001b\[[0-9;]*m/g, '');
+}
+
+function truncateOutput(text: string): string {
+  return text.length > MAX_OUTPUT_LENGTH
+    ? `${text.substring(0, MAX_OUTPUT_LENGTH)}\n...（输出过长，已截断）`
+    : text;
+}
+
+// 将单个代码单元格输出转换为文本，图片等非文本输出用占位说明代替
+function formatOutput(output: any): string | null {
+  switch (output.output_type) {
+    case 'stream':
+      return joinSource(output.text);
+    case 'execute_result':
+    case 'display_data': {
+      const data = output.data || {};
+      if (data['text/plain']) return joinSource(data['text/plain']);
+      const mimeType = Object.keys(data)[0];
+      return mimeType ? `[${mimeType} 输出]` : null;
+    }
+    case 'error':
+      return stripAnsi((output.traceback || []).join('\n')) || `${output.ename}: ${output.evalue}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * 将 Jupyter Notebook (.ipynb) 转换为 Markdown
+ * Markdown 单元格原样保留，代码单元格输出为代码块，其后附上文本输出
+ */
+export function notebookToMarkdown(json: string): string {
+  let notebook: any;
+  try {
+    notebook = JSON.parse(json);
+  } catch {
+    throw new Error('Notebook 不是有效的 JSON 文件');
+  }
+  if (!Array.isArray(notebook.cells)) {
+    throw new Error('不支持的 Notebook 格式（仅支持 nbformat 4）');
+  }
+
+  const metadata = notebook.metadata || {};
+  const language = metadata.language_info?.name || metadata.kernelspec?.language || 'python';
+
+  const blocks: string[] = [];
+  for (const cell of notebook.cells) {
+    const source = joinSource(cell.source).trim();
+
+    if (cell.cell_type === 'markdown') {
+      if (source) blocks.push(source);
+      continue;
+    }
+    if (cell.cell_type === 'raw') {
+      if (source) blocks.push(formatCodeBlock(source));
+      continue;
+    }
+    if (cell.cell_type !== 'code') continue;
+
+    if (source) {
+      const label = cell.execution_count ? `**In [${cell.execution_count}]:**\n\n` : '';
+      blocks.push(label + formatCodeBlock(source, language));
+    }
+
+    const outputs = (cell.outputs || [])
+      .map(formatOutput)
+      .filter((text: string | null): text is string => !!text && !!text.trim())
+      .map((text: string) => truncateOutput(text.replace(/\s+$/, '')));
+    if (outputs.length > 0) {
+      blocks.push(`**输出：**\n\n${formatCodeBlock(outputs.join('\n'), 'text')}`);
+    }
+  }
+  return blocks.join('\n\n');
+}
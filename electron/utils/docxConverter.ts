@@ -0,0 +1,129 @@
+// Word (.docx) 转 Markdown 工具：保留标题层级、列表、表格和嵌入图片
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import mammoth from 'mammoth';
+import TurndownService from 'turndown';
+import { buildMarkdownTable } from './markdownTable';
+
+export interface DocxMarkdownResult {
+  markdown: string;
+  images: string[];     // 保存的图片相对路径，如 ./assets/images/xxx.png
+  warnings: string[];
+}
+
+// 图片 MIME 类型到扩展名的映射
+const imageExtensions: Record<string, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'image/bmp': '.bmp',
+  'image/x-emf': '.emf',
+  'image/x-wmf': '.wmf',
+};
+
+// 创建 HTML -> Markdown 转换器
+function createTurndownService(): TurndownService {
+  const service = new TurndownService({
+    headingStyle: 'atx',
+    bulletListMarker: '-',
+    codeBlockStyle: 'fenced',
+    emDelimiter: '*',
+    strongDelimiter: '**',
+  });
+
+  // 列表项：标记后只保留一个空格，子内容按标记宽度缩进
+  service.addRule('listItem', {
+    filter: 'li',
+    replacement: (content, node, options) => {
+      const item = node as any;
+      const parent = item.parentNode;
+      let prefix = `${options.bulletListMarker} `;
+      if (parent?.nodeName === 'OL') {
+        const start = parseInt(parent.getAttribute('start') || '1', 10);
+        prefix = `${start + Array.from(parent.children).indexOf(item)}. `;
+      }
+      const indent = ' '.repeat(prefix.length);
+      const body = content
+        .replace(/^\n+/, '')
+        .replace(/\n+$/, '\n')
+        .replace(/\n(?!$)/g, `\n${indent}`);
+      return prefix + body + (item.nextSibling && !/\n$/.test(body) ? '\n' : '');
+    },
+  });
+
+  // 删除线
+  service.addRule('strikethrough', {
+    filter: ['s', 'del'],
+    replacement: (content) => `~~${content}~~`,
+  });
+
+  // mammoth 生成的表格没有 thead，统一将第一行作为表头输出 GFM 表格
+  service.addRule('table', {
+    filter: 'table',
+    replacement: (_content, node) => {
+      const rows: string[][] = [];
+      const rowNodes = (node as any).querySelectorAll('tr');
+      for (const rowNode of Array.from(rowNodes) as any[]) {
+        const cells: string[] = [];
+        for (const cellNode of Array.from(rowNode.children) as any[]) {
+          const cellMarkdown = service.turndown(cellNode.innerHTML).trim();
+          cells.push(cellMarkdown.replace(/\n+/g, '\n'));
+          // 合并单元格补齐空列，保持列对齐
+          const colspan = parseInt(cellNode.getAttribute('colspan') || '1', 10);
+          for (let i = 1; i < colspan; i++) cells.push('');
+        }
+        rows.push(cells);
+      }
+      return `\n\n${buildMarkdownTable(rows)}\n\n`;
+    },
+  });
+
+  return service;
+}
+
+/**
+ * 将 .docx 转换为 Markdown
+ * 嵌入图片按内容哈希命名保存到 imageDir，并以 ./assets/images/... 相对路径引用
+ */
+export async function docxToMarkdown(buffer: Buffer, imageDir: string): Promise<DocxMarkdownResult> {
+  const images: string[] = [];
+  let imageDirReady = false;
+
+  const convertImage = mammoth.images.imgElement(async (image) => {
+    const imageBuffer = await image.readAsBuffer();
+    const ext = imageExtensions[image.contentType] || '.png';
+    const hash = createHash('sha1').update(imageBuffer).digest('hex').substring(0, 16);
+    const fileName = `docx_${hash}${ext}`;
+
+    if (!imageDirReady) {
+      await fs.mkdir(imageDir, { recursive: true });
+      imageDirReady = true;
+    }
+    // 相同图片只保存一次
+    const destPath = path.join(imageDir, fileName);
+    try {
+      await fs.access(destPath);
+    } catch {
+      await fs.writeFile(destPath, imageBuffer);
+    }
+
+    const relativePath = `./assets/images/${fileName}`;
+    images.push(relativePath);
+    return { src: relativePath };
+  });
+
+  const result = await mammoth.convertToHtml({ buffer }, { convertImage });
+  const markdown = createTurndownService()
+    .turndown(result.value || '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return {
+    markdown,
+    images,
+    warnings: result.messages.map(message => message.message),
+  };
+}
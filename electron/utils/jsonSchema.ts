@@ -0,0 +1,58 @@
+// JSON Schema 校验工具：支持 LLM 结构化输出用到的子集（类型、必填字段、数组元素、字符串非空）
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+
+export interface JsonSchema {
+  type: JsonSchemaType | JsonSchemaType[];
+  properties?: Record<string, JsonSchema>;   // type 为 object 时各字段的结构
+  required?: string[];
+  items?: JsonSchema;                        // type 为 array 时元素的结构
+  minLength?: number;
+}
+
+function getJsonType(value: any): JsonSchemaType | 'null' {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: any, type: JsonSchemaType): boolean {
+  const actual = getJsonType(value);
+  // 整数也是合法的 number
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * 按 schema 校验 JSON 值，返回所有错误信息（如 "$.questions[0].answer 缺少必填字段"），校验通过时返回空数组
+ * 未在 properties 中声明的字段不做限制
+ */
+export function validateJson(value: any, schema: JsonSchema, path: string = '$'): string[] {
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (!types.some(type => matchesType(value, type))) {
+    return [`${path} 应为 ${types.join(' 或 ')}，实际为 ${getJsonType(value)}`];
+  }
+
+  const errors: string[] = [];
+  if (typeof value === 'string' && schema.minLength !== undefined && value.trim().length < schema.minLength) {
+    errors.push(schema.minLength === 1 ? `${path} 不能为空` : `${path} 长度不能少于 ${schema.minLength}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...validateJson(item, schema.items!, `${path}[${i}]`)));
+    }
+  } else if (value && typeof value === 'object') {
+    for (const key of schema.required || []) {
+      if (value[key] === undefined || value[key] === null) {
+        errors.push(`${path}.${key} 缺少必填字段`);
+      }
+    }
+    for (const [key, propSchema] of Object.entries(schema.properties || {})) {
+      if (value[key] !== undefined && value[key] !== null) {
+        errors.push(...validateJson(value[key], propSchema, `${path}.${key}`));
+      }
+    }
+  }
+  return errors;
+}
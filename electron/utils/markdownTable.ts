@@ -0,0 +1,28 @@
+// Markdown (GFM) 表格生成工具
+
+// 转义表格单元格中的特殊字符
+export function escapeTableCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * 将二维数组转换为 GFM 表格，第一行作为表头
+ * 各行列数不一致时以最长的一行为准补齐
+ */
+export function buildMarkdownTable(rows: string[][]): string {
+  if (rows.length === 0) {
+    return '';
+  }
+
+  const columnCount = Math.max(1, ...rows.map(row => row.length));
+  const formatRow = (row: string[]) => {
+    const cells = Array.from({ length: columnCount }, (_, i) => escapeTableCell(row[i] ?? ''));
+    return `| ${cells.join(' | ')} |`;
+  };
+
+  const lines = [formatRow(rows[0]), `| ${Array(columnCount).fill('---').join(' | ')} |`];
+  for (const row of rows.slice(1)) {
+    lines.push(formatRow(row));
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,89 @@
+// 离线 OCR 工具：使用随应用打包的中英文语言数据识别图片文字，无需联网
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createWorker, OEM, Worker } from 'tesseract.js';
+
+export interface OcrResult {
+  text: string;
+  confidence: number;   // 识别置信度 0-100
+}
+
+// 识别语言：简体中文 + 英文
+const OCR_LANGUAGES = ['chi_sim', 'eng'];
+
+let workerPromise: Promise<Worker> | null = null;
+
+// 打包后的模块位于 app.asar 中，worker 线程和语言数据需要从 app.asar.unpacked 读取
+function toUnpackedPath(filePath: string): string {
+  return filePath.replace(`app.asar${path.sep}`, `app.asar.unpacked${path.sep}`);
+}
+
+/**
+ * 将各语言包中的 traineddata 复制到同一目录
+ * tesseract.js 只支持单个 langPath，而每个语言包位于各自的 npm 包中
+ */
+async function prepareLanguageData(dataDir: string): Promise<void> {
+  await fs.mkdir(dataDir, { recursive: true });
+
+  for (const lang of OCR_LANGUAGES) {
+    const fileName = `${lang}.traineddata.gz`;
+    const destPath = path.join(dataDir, fileName);
+    try {
+      await fs.access(destPath);
+    } catch {
+      const { langPath } = require(`@tesseract.js-data/${lang}`) as { langPath: string };
+      await fs.copyFile(toUnpackedPath(path.join(langPath, fileName)), destPath);
+    }
+  }
+}
+
+async function createOcrWorker(dataDir: string): Promise<Worker> {
+  await prepareLanguageData(dataDir);
+  return createWorker(OCR_LANGUAGES, OEM.LSTM_ONLY, {
+    langPath: dataDir,
+    gzip: true,
+    cacheMethod: 'none',
+    workerPath: toUnpackedPath(require.resolve('tesseract.js/src/worker-script/node/index.js')),
+  });
+}
+
+// 复用同一个 worker，避免每次识别都重新加载语言数据
+function getWorker(dataDir: string): Promise<Worker> {
+  if (!workerPromise) {
+    workerPromise = createOcrWorker(dataDir).catch((error) => {
+      workerPromise = null;
+      throw error;
+    });
+  }
+  return workerPromise;
+}
+
+/**
+ * 识别图片中的文字
+ * @param image 图片数据（PNG、JPEG、BMP、WebP）
+ * @param dataDir 语言数据存放目录
+ */
+export async function recognizeImage(image: Buffer, dataDir: string): Promise<OcrResult> {
+  const worker = await getWorker(dataDir);
+  const { data } = await worker.recognize(image);
+  return {
+    // 中文字符之间会被识别出多余的空格
+    text: data.text.replace(/(?<=[\u4e00-\u9fa5]) (?=[\u4e00-\u9fa5])/g, '').trim(),
+    confidence: Math.round(data.confidence),
+  };
+}
+
+/**
+ * 关闭 OCR worker（应用退出时调用）
+ */
+export async function terminateOcrWorker(): Promise<void> {
+  if (!workerPromise) return;
+  const pending = workerPromise;
+  workerPromise = null;
+  try {
+    await (await pending).terminate();
+  } catch (error) {
+    console.error('关闭 OCR worker 失败:', error);
+  }
+}
@@ -0,0 +1,56 @@
+// Office Open XML (.docx/.pptx/.xlsx) 压缩包读取的通用工具
+
+import * as path from 'path';
+import JSZip from 'jszip';
+
+// XML 实体解码
+export function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// 读取标签上的属性值
+export function getXmlAttribute(tagXml: string, name: string): string | undefined {
+  const value = tagXml.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+  return value === undefined ? undefined : decodeXmlEntities(value);
+}
+
+// 解析 .rels 文件，返回 Id -> Target 映射
+export function parseRelationships(xml: string): Map<string, { target: string; type: string }> {
+  const rels = new Map<string, { target: string; type: string }>();
+  const relRegex = /<Relationship\b([^>]*?)\/?>/g;
+  let match: RegExpExecArray | null;
+  while ((match = relRegex.exec(xml)) !== null) {
+    const id = getXmlAttribute(match[1], 'Id');
+    const target = getXmlAttribute(match[1], 'Target');
+    if (id && target) {
+      rels.set(id, { target, type: getXmlAttribute(match[1], 'Type') || '' });
+    }
+  }
+  return rels;
+}
+
+// 将 rels 中的相对路径解析为压缩包内路径
+export function resolvePartPath(baseDir: string, target: string): string {
+  if (target.startsWith('/')) {
+    return target.substring(1);
+  }
+  return path.posix.normalize(path.posix.join(baseDir, target));
+}
+
+// 获取 rels 文件路径，如 ppt/slides/slide1.xml -> ppt/slides/_rels/slide1.xml.rels
+export function getRelsPath(partPath: string): string {
+  return path.posix.join(path.posix.dirname(partPath), '_rels', `${path.posix.basename(partPath)}.rels`);
+}
+
+// 读取压缩包中的 XML 部件，不存在时返回 null
+export async function readPart(zip: JSZip, partPath: string): Promise<string | null> {
+  const file = zip.file(partPath);
+  return file ? await file.async('string') : null;
+}
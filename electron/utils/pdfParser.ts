@@ -0,0 +1,159 @@
+// PDF 分页解析工具：逐页提取文本，支持页码范围选择，并可将页面渲染为图片供 OCR 使用
+
+import pdfParse from 'pdf-parse';
+import type * as NapiCanvas from '@napi-rs/canvas';
+
+export interface PdfPage {
+  pageNumber: number;   // 从 1 开始的页码
+  text: string;
+  ocrConfidence?: number;  // 通过 OCR 识别时的置信度 0-100
+}
+
+// 页码范围（从 1 开始，包含首尾）
+export interface PageRange {
+  start: number;
+  end: number;
+}
+
+// 单页元数据，返回给渲染进程用于页码选择
+export interface PageInfo {
+  pageNumber: number;
+  charCount: number;
+  hasText: boolean;
+  ocrConfidence?: number;
+}
+
+// 提取单页文本（与 pdf-parse 默认逻辑一致：y 坐标变化时换行）
+async function renderPageText(pageData: any): Promise<string> {
+  const textContent = await pageData.getTextContent({
+    normalizeWhitespace: false,
+    disableCombineTextItems: false,
+  });
+
+  let lastY: number | undefined;
+  let text = '';
+  for (const item of textContent.items) {
+    const y = item.transform[5];
+    text += lastY === undefined || lastY === y ? item.str : `\n${item.str}`;
+    lastY = y;
+  }
+  return text;
+}
+
+/**
+ * 逐页提取 PDF 文本
+ */
+export async function extractPdfPages(buffer: Buffer): Promise<PdfPage[]> {
+  const pages: PdfPage[] = [];
+
+  const data = await pdfParse(buffer, {
+    pagerender: async (pageData: any) => {
+      const text = await renderPageText(pageData);
+      pages.push({ pageNumber: pageData.pageNumber ?? pageData.pageIndex + 1, text });
+      return text;
+    },
+  });
+
+  // 补齐渲染失败的页面，保证页码连续
+  for (let pageNumber = 1; pageNumber <= data.numpages; pageNumber++) {
+    if (!pages.some(page => page.pageNumber === pageNumber)) {
+      pages.push({ pageNumber, text: '' });
+    }
+  }
+  return pages.sort((a, b) => a.pageNumber - b.pageNumber);
+}
+
+/**
+ * 将页码范围限制在文档页数之内
+ */
+export function clampPageRange(range: PageRange, pageCount: number): PageRange {
+  const start = Math.min(Math.max(1, Math.floor(range.start)), pageCount);
+  const end = Math.min(Math.max(start, Math.floor(range.end)), pageCount);
+  return { start, end };
+}
+
+/**
+ * 将页面文本拼接为带 `[第 N 页]` 标记的文本，可只保留指定页码范围
+ */
+export function formatPdfPages(pages: PdfPage[], range?: PageRange): string {
+  return pages
+    .filter(page => !range || (page.pageNumber >= range.start && page.pageNumber <= range.end))
+    .filter(page => page.text.trim())
+    .map(page => `[第 ${page.pageNumber} 页]\n${page.text.trim()}`)
+    .join('\n\n');
+}
+
+export function getPageInfos(pages: PdfPage[]): PageInfo[] {
+  return pages.map(page => ({
+    pageNumber: page.pageNumber,
+    charCount: page.text.trim().length,
+    hasText: page.text.trim().length > 0,
+    ocrConfidence: page.ocrConfidence,
+  }));
+}
+
+// ==================== 页面渲染 ====================
+
+// pdf.js 使用的 canvas 工厂（Node 环境下基于 @napi-rs/canvas）
+class NodeCanvasFactory {
+  constructor(private readonly canvasModule: typeof NapiCanvas) {}
+
+  create(width: number, height: number) {
+    const canvas = this.canvasModule.createCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  }
+
+  reset(canvasAndContext: any, width: number, height: number) {
+    canvasAndContext.canvas.width = width;
+    canvasAndContext.canvas.height = height;
+  }
+
+  destroy(canvasAndContext: any) {
+    canvasAndContext.canvas.width = 0;
+    canvasAndContext.canvas.height = 0;
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  }
+}
+
+// 按需加载 pdf.js 和 canvas，加载前补齐 pdf.js 在 Node 环境下依赖的 DOM 类型
+async function loadPdfjs() {
+  const canvasModule = await import('@napi-rs/canvas');
+  const globals = globalThis as any;
+  globals.DOMMatrix ??= canvasModule.DOMMatrix;
+  globals.Path2D ??= canvasModule.Path2D;
+  globals.ImageData ??= canvasModule.ImageData;
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.js');
+  return { pdfjs, canvasModule };
+}
+
+/**
+ * 将指定页面渲染为 PNG 图片
+ * @param scale 渲染缩放比例，2 倍约为 144 DPI，足够 OCR 使用
+ */
+export async function renderPdfPages(buffer: Buffer, pageNumbers: number[], scale: number = 2): Promise<Map<number, Buffer>> {
+  const { pdfjs, canvasModule } = await loadPdfjs();
+  const canvasFactory = new NodeCanvasFactory(canvasModule);
+  const doc = await pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    canvasFactory,
+    isEvalSupported: false,
+    verbosity: 0,
+  } as any).promise;
+
+  const images = new Map<number, Buffer>();
+  try {
+    for (const pageNumber of pageNumbers) {
+      const page = await doc.getPage(pageNumber);
+      const viewport = page.getViewport({ scale });
+      const canvasAndContext = canvasFactory.create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+      await page.render({ canvasContext: canvasAndContext.context as any, viewport }).promise;
+      images.set(pageNumber, canvasAndContext.canvas.toBuffer('image/png'));
+      canvasFactory.destroy(canvasAndContext);
+      page.cleanup();
+    }
+  } finally {
+    await doc.destroy();
+  }
+  return images;
+}
@@ -0,0 +1,185 @@
+// PowerPoint (.pptx) 解析工具：逐页提取标题、正文、表格和演讲者备注，输出 Markdown
+
+import * as path from 'path';
+import JSZip from 'jszip';
+import { decodeXmlEntities, getRelsPath, parseRelationships, readPart, resolvePartPath } from './ooxml';
+import { buildMarkdownTable } from './markdownTable';
+
+// 按演示文稿中的顺序获取幻灯片路径
+async function getSlidePaths(zip: JSZip): Promise<string[]> {
+  const presentationXml = await readPart(zip, 'ppt/presentation.xml');
+  const presentationRels = await readPart(zip, 'ppt/_rels/presentation.xml.rels');
+
+  if (presentationXml && presentationRels) {
+    const rels = parseRelationships(presentationRels);
+    const slidePaths: string[] = [];
+    const sldIdRegex = /<p:sldId\b[^>]*\br:id="([^"]*)"/g;
+    let match: RegExpExecArray | null;
+    while ((match = sldIdRegex.exec(presentationXml)) !== null) {
+      const rel = rels.get(match[1]);
+      if (rel) {
+        slidePaths.push(resolvePartPath('ppt', rel.target));
+      }
+    }
+    if (slidePaths.length > 0) {
+      return slidePaths;
+    }
+  }
+
+  // 回退：按文件名编号排序
+  return Object.keys(zip.files)
+    .filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+    .sort((a, b) => {
+      const numA = parseInt(a.match(/slide(\d+)\.xml$/)![1], 10);
+      const numB = parseInt(b.match(/slide(\d+)\.xml$/)![1], 10);
+      return numA - numB;
+    });
+}
+
+interface PptxParagraph {
+  text: string;
+  level: number;
+}
+
+// 提取文本框中的段落
+function extractParagraphs(xml: string): PptxParagraph[] {
+  const paragraphs: PptxParagraph[] = [];
+  const paragraphRegex = /<a:p(?:\s[^>]*)?>([\s\S]*?)<\/a:p>/g;
+  let match: RegExpExecArray | null;
+  while ((match = paragraphRegex.exec(xml)) !== null) {
+    const body = match[1];
+    const level = parseInt(body.match(/<a:pPr\b[^>]*\blvl="(\d+)"/)?.[1] || '0', 10);
+    let text = '';
+    const runRegex = /<a:t(?:\s[^>]*)?>([\s\S]*?)<\/a:t>|<a:br\b[^>]*\/>/g;
+    let runMatch: RegExpExecArray | null;
+    while ((runMatch = runRegex.exec(body)) !== null) {
+      text += runMatch[1] !== undefined ? decodeXmlEntities(runMatch[1]) : '\n';
+    }
+    if (text.trim()) {
+      paragraphs.push({ text: text.trim(), level });
+    }
+  }
+  return paragraphs;
+}
+
+// 将 a:tbl 转换为 GFM 表格
+function tableToMarkdown(tableXml: string): string {
+  const rows: string[][] = [];
+  const rowRegex = /<a:tr\b[^>]*>([\s\S]*?)<\/a:tr>/g;
+  let rowMatch: RegExpExecArray | null;
+  while ((rowMatch = rowRegex.exec(tableXml)) !== null) {
+    const cells: string[] = [];
+    const cellRegex = /<a:tc\b[^>]*?(?:\/>|>([\s\S]*?)<\/a:tc>)/g;
+    let cellMatch: RegExpExecArray | null;
+    while ((cellMatch = cellRegex.exec(rowMatch[1])) !== null) {
+      cells.push(extractParagraphs(cellMatch[1] || '').map(p => p.text).join('\n'));
+    }
+    rows.push(cells);
+  }
+  return buildMarkdownTable(rows);
+}
+
+// 获取形状的占位符类型（title、ctrTitle、subTitle、body 等）
+function getPlaceholderType(shapeXml: string): string | null {
+  const ph = shapeXml.match(/<p:ph\b([^>]*)\/?>/);
+  if (!ph) return null;
+  return ph[1].match(/\btype="([^"]*)"/)?.[1] || 'body';
+}
+
+interface SlideContent {
+  title: string;
+  blocks: string[];
+}
+
+// 解析单页幻灯片
+function parseSlide(xml: string): SlideContent {
+  const content: SlideContent = { title: '', blocks: [] };
+  const shapeRegex = /<p:(sp|graphicFrame)\b[\s\S]*?<\/p:\1>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = shapeRegex.exec(xml)) !== null) {
+    const shapeXml = match[0];
+
+    if (match[1] === 'graphicFrame') {
+      const tableXml = shapeXml.match(/<a:tbl\b[\s\S]*?<\/a:tbl>/)?.[0];
+      if (tableXml) {
+        const table = tableToMarkdown(tableXml);
+        if (table) content.blocks.push(table);
+      }
+      continue;
+    }
+
+    const paragraphs = extractParagraphs(shapeXml);
+    if (paragraphs.length === 0) continue;
+
+    const placeholderType = getPlaceholderType(shapeXml);
+    if ((placeholderType === 'title' || placeholderType === 'ctrTitle') && !content.title) {
+      content.title = paragraphs.map(p => p.text.replace(/\n/g, ' ')).join(' ');
+    } else if (placeholderType === 'body' || placeholderType === 'obj') {
+      // 正文占位符按项目符号列表输出，保留缩进层级
+      content.blocks.push(
+        paragraphs
+          .map(p => `${'  '.repeat(p.level)}- ${p.text.replace(/\n/g, ' ')}`)
+          .join('\n')
+      );
+    } else {
+      content.blocks.push(paragraphs.map(p => p.text).join('\n\n'));
+    }
+  }
+
+  return content;
+}
+
+// 提取幻灯片对应的演讲者备注
+async function extractNotes(zip: JSZip, slidePath: string): Promise<string> {
+  const relsXml = await readPart(zip, getRelsPath(slidePath));
+  if (!relsXml) return '';
+
+  const notesRel = Array.from(parseRelationships(relsXml).values())
+    .find(rel => rel.type.endsWith('/notesSlide'));
+  if (!notesRel) return '';
+
+  const notesXml = await readPart(zip, resolvePartPath(path.posix.dirname(slidePath), notesRel.target));
+  if (!notesXml) return '';
+
+  // 备注页中只有 body 占位符是真正的备注内容（其余为幻灯片缩略图、页码等）
+  const notes: string[] = [];
+  const shapeRegex = /<p:sp\b[\s\S]*?<\/p:sp>/g;
+  let match: RegExpExecArray | null;
+  while ((match = shapeRegex.exec(notesXml)) !== null) {
+    if (getPlaceholderType(match[0]) === 'body') {
+      notes.push(...extractParagraphs(match[0]).map(p => p.text));
+    }
+  }
+  return notes.join('\n');
+}
+
+/**
+ * 将 .pptx 演示文稿转换为 Markdown
+ * 每页幻灯片输出一个 `## Slide N` 标题，依次包含标题、正文、表格和演讲者备注
+ */
+export async function pptxToMarkdown(buffer: Buffer): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer);
+  const slidePaths = await getSlidePaths(zip);
+  const sections: string[] = [];
+
+  for (let i = 0; i < slidePaths.length; i++) {
+    const slideXml = await readPart(zip, slidePaths[i]);
+    if (!slideXml) continue;
+
+    const slide = parseSlide(slideXml);
+    const notes = await extractNotes(zip, slidePaths[i]);
+
+    const parts = [`## Slide ${i + 1}`];
+    if (slide.title) {
+      parts.push(`### ${slide.title}`);
+    }
+    parts.push(...slide.blocks);
+    if (notes) {
+      parts.push(`> **演讲者备注：**\n${notes.split('\n').map(line => `> ${line}`).join('\n')}`);
+    }
+    sections.push(parts.join('\n\n'));
+  }
+
+  return sections.join('\n\n');
+}
@@ -0,0 +1,320 @@
+// 电子表格 (.xlsx / .csv) 解析工具：每个工作表转换为一个 GFM 表格
+
+import JSZip from 'jszip';
+import { decodeXmlEntities, getXmlAttribute, parseRelationships, readPart, resolvePartPath } from './ooxml';
+import { buildMarkdownTable } from './markdownTable';
+
+// 超过该行数的工作表只保留前 N 行数据，避免提示词超长
+export const MAX_SHEET_PREVIEW_ROWS = 50;
+
+export interface SheetData {
+  name: string;
+  rows: string[][];
+}
+
+// ==================== CSV ====================
+
+/**
+ * 解析 CSV 文本（RFC 4180：支持引号包裹、引号转义和字段内换行）
+ */
+export function parseCsv(text: string, delimiter: string = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // 去除 UTF-8 BOM
+  const input = text.charCodeAt(0) === 0xfeff ? text.substring(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// 根据首行内容推断分隔符（逗号、制表符或分号）
+function detectCsvDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const candidates = [',', '\t', ';'];
+  let best = ',';
+  let bestCount = 0;
+  for (const candidate of candidates) {
+    const count = firstLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+export function csvToSheet(text: string, name: string): SheetData {
+  return { name, rows: parseCsv(text, detectCsvDelimiter(text)) };
+}
+
+// ==================== XLSX ====================
+
+// 内置的日期/时间数字格式 ID
+const BUILTIN_DATE_FORMAT_IDS = new Set([
+  14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36,
+  45, 46, 47, 50, 51, 52, 53, 54, 55, 56, 57, 58,
+]);
+
+// 判断自定义格式代码是否为日期/时间格式
+function isDateFormatCode(formatCode: string): boolean {
+  const stripped = formatCode
+    .replace(/"[^"]*"/g, '')
+    .replace(/\[[^\]]*\]/g, '')
+    .replace(/\\./g, '');
+  return /[ymdhs]/i.test(stripped) && !/^[#0.,%\s]*$/.test(stripped);
+}
+
+// 读取 styles.xml，返回每个单元格样式索引是否为日期格式
+function parseDateStyles(stylesXml: string | null): boolean[] {
+  if (!stylesXml) return [];
+
+  const customDateFormats = new Set<number>();
+  const numFmtRegex = /<numFmt\b[^>]*\/?>/g;
+  let match: RegExpExecArray | null;
+  while ((match = numFmtRegex.exec(stylesXml)) !== null) {
+    const id = parseInt(getXmlAttribute(match[0], 'numFmtId') || '', 10);
+    const code = getXmlAttribute(match[0], 'formatCode') || '';
+    if (!isNaN(id) && isDateFormatCode(code)) {
+      customDateFormats.add(id);
+    }
+  }
+
+  const cellXfs = stylesXml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] || '';
+  const styles: boolean[] = [];
+  const xfRegex = /<xf\b[^>]*?\/?>/g;
+  while ((match = xfRegex.exec(cellXfs)) !== null) {
+    const id = parseInt(getXmlAttribute(match[0], 'numFmtId') || '0', 10);
+    styles.push(BUILTIN_DATE_FORMAT_IDS.has(id) || customDateFormats.has(id));
+  }
+  return styles;
+}
+
+// 将 Excel 日期序列号转换为可读日期
+function formatExcelDate(serial: number, date1904: boolean): string {
+  const epochOffset = date1904 ? 24107 : 25569;
+  const date = new Date(Math.round((serial - epochOffset) * 86400 * 1000));
+  if (isNaN(date.getTime())) return String(serial);
+
+  const iso = date.toISOString();
+  if (Number.isInteger(serial)) {
+    return iso.substring(0, 10);
+  }
+  // 纯时间（序列号小于 1）只保留时分秒
+  if (serial < 1) {
+    return iso.substring(11, 19);
+  }
+  return `${iso.substring(0, 10)} ${iso.substring(11, 19)}`;
+}
+
+// 提取富文本/共享字符串中的纯文本（忽略拼音注释 rPh）
+function extractStringItem(xml: string): string {
+  const withoutPhonetic = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+  let text = '';
+  const textRegex = /<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g;
+  let match: RegExpExecArray | null;
+  while ((match = textRegex.exec(withoutPhonetic)) !== null) {
+    text += decodeXmlEntities(match[1]);
+  }
+  return text;
+}
+
+function parseSharedStrings(xml: string | null): string[] {
+  if (!xml) return [];
+  const strings: string[] = [];
+  const siRegex = /<si\b[^>]*>([\s\S]*?)<\/si>/g;
+  let match: RegExpExecArray | null;
+  while ((match = siRegex.exec(xml)) !== null) {
+    strings.push(extractStringItem(match[1]));
+  }
+  return strings;
+}
+
+// 列字母转换为从 0 开始的列索引，如 A -> 0, AB -> 27
+function columnIndexFromRef(ref: string): number {
+  const letters = ref.match(/^[A-Z]+/i)?.[0].toUpperCase() || '';
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+interface WorkbookContext {
+  sharedStrings: string[];
+  dateStyles: boolean[];
+  date1904: boolean;
+}
+
+// 解析单元格的显示值
+function parseCellValue(cellXml: string, attrs: string, context: WorkbookContext): string {
+  const type = getXmlAttribute(attrs, 't') || 'n';
+  const value = cellXml.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+  switch (type) {
+    case 's':
+      return value !== undefined ? context.sharedStrings[parseInt(value, 10)] ?? '' : '';
+    case 'inlineStr':
+      return extractStringItem(cellXml.match(/<is>([\s\S]*?)<\/is>/)?.[1] || '');
+    case 'b':
+      return value === '1' ? 'TRUE' : 'FALSE';
+    case 'str':
+    case 'e':
+      return value !== undefined ? decodeXmlEntities(value) : '';
+    default: {
+      if (value === undefined) return '';
+      const styleIndex = parseInt(getXmlAttribute(attrs, 's') || '0', 10);
+      const number = parseFloat(value);
+      if (context.dateStyles[styleIndex] && !isNaN(number)) {
+        return formatExcelDate(number, context.date1904);
+      }
+      return value;
+    }
+  }
+}
+
+// 解析工作表中的所有行
+function parseWorksheet(xml: string, context: WorkbookContext): string[][] {
+  const rows: string[][] = [];
+  const sheetData = xml.match(/<sheetData\b[^>]*>([\s\S]*?)<\/sheetData>/)?.[1] || '';
+  const rowRegex = /<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g;
+  let rowMatch: RegExpExecArray | null;
+  let nextRowIndex = 0;
+
+  while ((rowMatch = rowRegex.exec(sheetData)) !== null) {
+    const rowNumber = parseInt(getXmlAttribute(rowMatch[1], 'r') || '', 10);
+    const rowIndex = isNaN(rowNumber) ? nextRowIndex : rowNumber - 1;
+    nextRowIndex = rowIndex + 1;
+
+    const row: string[] = [];
+    const cellRegex = /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g;
+    let cellMatch: RegExpExecArray | null;
+    let nextColumnIndex = 0;
+    while ((cellMatch = cellRegex.exec(rowMatch[2] || '')) !== null) {
+      const ref = getXmlAttribute(cellMatch[1], 'r');
+      const columnIndex = ref ? columnIndexFromRef(ref) : nextColumnIndex;
+      nextColumnIndex = columnIndex + 1;
+      row[columnIndex] = parseCellValue(cellMatch[2] || '', cellMatch[1], context);
+    }
+
+    // 填补稀疏数组中的空单元格和空行
+    rows[rowIndex] = Array.from(row, cell => cell ?? '');
+  }
+
+  return Array.from(rows, row => row ?? []);
+}
+
+/**
+ * 读取 .xlsx 工作簿中的所有工作表
+ */
+export async function parseXlsx(buffer: Buffer): Promise<SheetData[]> {
+  const zip = await JSZip.loadAsync(buffer);
+  const workbookXml = await readPart(zip, 'xl/workbook.xml');
+  const workbookRels = await readPart(zip, 'xl/_rels/workbook.xml.rels');
+  if (!workbookXml || !workbookRels) {
+    throw new Error('无效的 Excel 工作簿');
+  }
+
+  const context: WorkbookContext = {
+    sharedStrings: parseSharedStrings(await readPart(zip, 'xl/sharedStrings.xml')),
+    dateStyles: parseDateStyles(await readPart(zip, 'xl/styles.xml')),
+    date1904: /<workbookPr\b[^>]*\bdate1904="(1|true)"/.test(workbookXml),
+  };
+
+  const rels = parseRelationships(workbookRels);
+  const sheets: SheetData[] = [];
+  const sheetRegex = /<sheet\b[^>]*\/?>/g;
+  let match: RegExpExecArray | null;
+  while ((match = sheetRegex.exec(workbookXml)) !== null) {
+    const name = getXmlAttribute(match[0], 'name') || `Sheet${sheets.length + 1}`;
+    const relId = getXmlAttribute(match[0], 'r:id');
+    const rel = relId ? rels.get(relId) : undefined;
+    if (!rel) continue;
+
+    const sheetXml = await readPart(zip, resolvePartPath('xl', rel.target));
+    if (!sheetXml) continue;
+    sheets.push({ name, rows: parseWorksheet(sheetXml, context) });
+  }
+
+  return sheets;
+}
+
+// ==================== Markdown 输出 ====================
+
+// 去除空行和末尾的空列
+function trimSheetRows(rows: string[][]): string[][] {
+  const trimmed = rows.filter(row => row.some(cell => cell.trim()));
+
+  let columnCount = 0;
+  for (const row of trimmed) {
+    for (let i = row.length - 1; i >= columnCount; i--) {
+      if (row[i]?.trim()) {
+        columnCount = i + 1;
+        break;
+      }
+    }
+  }
+  return trimmed.map(row => row.slice(0, columnCount));
+}
+
+/**
+ * 将工作表转换为 Markdown：工作表名作为标题，内容为 GFM 表格
+ * 数据行超过 maxRows 时只保留前 maxRows 行，并注明总行数
+ */
+export function sheetsToMarkdown(sheets: SheetData[], maxRows: number = MAX_SHEET_PREVIEW_ROWS): string {
+  const sections: string[] = [];
+
+  for (const sheet of sheets) {
+    const rows = trimSheetRows(sheet.rows);
+    if (rows.length === 0) continue;
+
+    const [header, ...dataRows] = rows;
+    const parts = [`## ${sheet.name}`];
+    if (dataRows.length > maxRows) {
+      parts.push(`> 共 ${dataRows.length} 行数据，以下仅显示前 ${maxRows} 行`);
+    }
+    parts.push(buildMarkdownTable([header, ...dataRows.slice(0, maxRows)]));
+    sections.push(parts.join('\n\n'));
+  }
+
+  return sections.join('\n\n');
+}
@@ -0,0 +1,38 @@
+// Server-Sent Events 解析工具：从 HTTP 响应流中逐个读取事件的 data 字段
+
+/**
+ * 解析 SSE 响应流，依次产出每个事件的 data 内容
+ * 多行 data 按规范用换行拼接，注释行和其他字段忽略
+ */
+export async function* readSseData(stream: AsyncIterable<Buffer | string>): AsyncGenerator<string> {
+  const decoder = new TextDecoder('utf-8');
+  let buffer = '';
+
+  const parseEvent = (event: string): string | null => {
+    const dataLines = event
+      .split(/\r?\n/)
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).replace(/^ /, ''));
+    return dataLines.length > 0 ? dataLines.join('\n') : null;
+  };
+
+  for await (const chunk of stream) {
+    // 使用流式解码，避免多字节字符被拆分到两个数据块时出现乱码
+    buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+
+    let match: RegExpExecArray | null;
+    while ((match = /\r?\n\r?\n/.exec(buffer))) {
+      const data = parseEvent(buffer.slice(0, match.index));
+      buffer = buffer.slice(match.index + match[0].length);
+      if (data !== null) {
+        yield data;
+      }
+    }
+  }
+
+  buffer += decoder.decode();
+  const data = parseEvent(buffer);
+  if (data !== null) {
+    yield data;
+  }
+}
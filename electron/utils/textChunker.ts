@@ -0,0 +1,56 @@
+// 长文本分块工具：优先在页码标记、标题、题号等结构边界处切分，保证每块不超过长度上限
+
+// 切分规则，按优先级从高到低依次尝试
+const SPLITTERS: RegExp[] = [
+  // 页码标记、Markdown 标题（含 "## Slide N"）
+  /(?=^(?:\[第 \d+ 页\]$|#{1,6} ))/m,
+  // 题号：1. / 1、/ 一、/ 第一题 / 第 2 部分
+  /(?=^\s*(?:\d+[.、．]|[一二三四五六七八九十]+、|第\s*[一二三四五六七八九十\d]+\s*[题章节部分]))/m,
+  // 段落（空行）
+  /(?<=\n[ \t]*\n)/,
+  // 行
+  /(?<=\n)/,
+];
+
+// 将文本切分为不超过 maxLength 的片段，切分后的片段按顺序拼接即为原文
+function splitSegments(text: string, maxLength: number, level: number): string[] {
+  if (text.length <= maxLength) {
+    return [text];
+  }
+
+  // 所有结构边界都用尽，按长度硬切
+  if (level >= SPLITTERS.length) {
+    const segments: string[] = [];
+    for (let i = 0; i < text.length; i += maxLength) {
+      segments.push(text.substring(i, i + maxLength));
+    }
+    return segments;
+  }
+
+  const parts = text.split(SPLITTERS[level]).filter(part => part.length > 0);
+  if (parts.length <= 1) {
+    return splitSegments(text, maxLength, level + 1);
+  }
+  return parts.flatMap(part => splitSegments(part, maxLength, level + 1));
+}
+
+/**
+ * 将长文本切分为多个块
+ * 相邻片段会被尽量合并，使每块接近但不超过 maxLength
+ */
+export function splitIntoChunks(text: string, maxLength: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const segment of splitSegments(text, maxLength, 0)) {
+    if (current.length + segment.length > maxLength && current.trim()) {
+      chunks.push(current.trim());
+      current = '';
+    }
+    current += segment;
+  }
+  if (current.trim()) {
+    chunks.push(current.trim());
+  }
+  return chunks;
+}
@@ -0,0 +1,83 @@
+// 文本编码检测与转码：先检查 BOM，再用统计方法猜测编码，统一转为 UTF-8 字符串
+
+import chardet from 'chardet';
+import iconv from 'iconv-lite';
+
+export interface DecodedText {
+  text: string;
+  encoding: string;     // 实际使用的编码名称
+}
+
+// 统计检测时最多取样的字节数
+const DETECT_SAMPLE_SIZE = 64 * 1024;
+
+// chardet 检测结果到解码编码的映射：GB2312/GBK 统一按其超集 GB18030 解码
+const ENCODING_ALIASES: Record<string, string> = {
+  'ASCII': 'UTF-8',
+  'GB2312': 'GB18030',
+  'GBK': 'GB18030',
+  'ISO-8859-1': 'windows-1252',
+};
+
+// 根据 BOM 判断编码
+function detectBom(buffer: Buffer): string | null {
+  if (buffer.length >= 3 && buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return 'UTF-8';
+  }
+  if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return 'UTF-16LE';
+  }
+  if (buffer.length >= 2 && buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return 'UTF-16BE';
+  }
+  return null;
+}
+
+// 是否为合法的 UTF-8 字节序列（取样时末尾可能截断一个多字节字符，允许不完整结尾）
+function isValidUtf8(buffer: Buffer): boolean {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(buffer, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 检测文本文件编码
+ * 依次检查 BOM、UTF-8 合法性，最后使用统计检测
+ */
+export function detectEncoding(buffer: Buffer): string {
+  const bomEncoding = detectBom(buffer);
+  if (bomEncoding) {
+    return bomEncoding;
+  }
+
+  const sample = buffer.subarray(0, DETECT_SAMPLE_SIZE);
+  if (isValidUtf8(sample)) {
+    return 'UTF-8';
+  }
+
+  // 样本较短时多种编码的置信度可能相同，此时优先选择国内最常见的 GB18030
+  const candidates = chardet.analyse(sample);
+  if (candidates.length === 0) {
+    return 'UTF-8';
+  }
+  const topConfidence = candidates[0].confidence;
+  const best = candidates.find(candidate => candidate.confidence === topConfidence && candidate.name === 'GB18030')
+    || candidates[0];
+  return ENCODING_ALIASES[best.name] || best.name;
+}
+
+/**
+ * 将文本文件内容解码为字符串
+ * @param encoding 手动指定的编码，未指定时自动检测
+ */
+export function decodeText(buffer: Buffer, encoding?: string): DecodedText {
+  const resolved = encoding || detectEncoding(buffer);
+  if (!iconv.encodingExists(resolved)) {
+    throw new Error(`不支持的文本编码: ${resolved}`);
+  }
+  // iconv-lite 默认会去掉 BOM
+  return { text: iconv.decode(buffer, resolved), encoding: resolved };
+}
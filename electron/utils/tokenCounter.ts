@@ -0,0 +1,89 @@
+import { getEncoding, Tiktoken, TiktokenEncoding } from 'js-tiktoken';
+
+// Token 计数工具：OpenAI 模型使用公开的 BPE 词表（cl100k_base / o200k_base）实际分词，
+// 其他模型（通义千问、DeepSeek、智谱等）的词表未公开，按字符类别和经验比例粗略估算
+
+// 分词器类型：cl100k 和 o200k 为 OpenAI 的 BPE 词表，cjk 表示没有可用词表、使用粗略估算
+export type TokenizerFamily = 'cl100k' | 'o200k' | 'cjk';
+
+// 有公开词表的分词器
+const ENCODINGS: Partial<Record<TokenizerFamily, TiktokenEncoding>> = {
+  cl100k: 'cl100k_base',   // GPT-3.5 / GPT-4
+  o200k: 'o200k_base',     // GPT-4o 及之后的模型
+};
+
+// 词表较大，第一次使用时才加载
+const encoders = new Map<TokenizerFamily, Tiktoken>();
+
+function getEncoder(family: TokenizerFamily): Tiktoken | undefined {
+  const encoding = ENCODINGS[family];
+  if (!encoding) return undefined;
+  let encoder = encoders.get(family);
+  if (!encoder) {
+    encoder = getEncoding(encoding);
+    encoders.set(family, encoder);
+  }
+  return encoder;
+}
+
+/**
+ * 是否使用真实的分词器计数（否则为粗略估算）
+ */
+export function hasExactTokenizer(family: TokenizerFamily): boolean {
+  return ENCODINGS[family] !== undefined;
+}
+
+// ==================== 粗略估算 ====================
+
+// 每个汉字（及日文、韩文字符）平均占用的 token 数（中文词表较大的模型）
+const CJK_TOKENS_PER_CHAR = 0.7;
+
+// 英文单词平均每个 token 的字符数
+const LATIN_CHARS_PER_TOKEN = 4;
+
+// 汉字、日文假名和韩文字符
+const CJK_RANGES = '\\u3040-\\u30ff\\u3400-\\u4dbf\\u4e00-\\u9fff\\uac00-\\ud7af\\uf900-\\ufaff';
+const LATIN_RANGES = 'a-zA-Z\\u00c0-\\u024f';
+
+// 预分词：连续的汉字、字母单词（可带前导空格）、数字、空白和标点符号各自成段
+const PRE_TOKENIZE = new RegExp(`[${CJK_RANGES}]+| ?[${LATIN_RANGES}]+| ?\\d+|\\s+|[^\\s\\d${LATIN_RANGES}${CJK_RANGES}]+`, 'g');
+const CJK_PATTERN = new RegExp(`^[${CJK_RANGES}]`);
+const LATIN_PATTERN = new RegExp(`^[${LATIN_RANGES}]`);
+
+function countPieceTokens(piece: string): number {
+  if (CJK_PATTERN.test(piece)) {
+    return piece.length * CJK_TOKENS_PER_CHAR;
+  }
+  const trimmed = piece.trimStart();
+  if (!trimmed) {
+    // 空白：换行各算一个，连续空格合并
+    return Math.max(1, (piece.match(/\n/g) || []).length);
+  }
+  if (LATIN_PATTERN.test(trimmed)) {
+    return Math.max(1, Math.ceil(trimmed.length / LATIN_CHARS_PER_TOKEN));
+  }
+  if (/^\d/.test(trimmed)) {
+    // 数字按三位一组切分
+    return Math.ceil(trimmed.length / 3);
+  }
+  // 标点和符号：常见组合（如 "```"、"->"）通常合并为一个 token
+  return Math.ceil(trimmed.length / 2);
+}
+
+function roughlyCountTokens(text: string): number {
+  let total = 0;
+  for (const piece of text.match(PRE_TOKENIZE) || []) {
+    total += countPieceTokens(piece);
+  }
+  return Math.ceil(total);
+}
+
+/**
+ * 计算文本的 token 数：有公开词表时实际分词，否则粗略估算
+ */
+export function estimateTokens(text: string, family: TokenizerFamily = 'cjk'): number {
+  if (!text) return 0;
+  const encoder = getEncoder(family);
+  // 文本中的特殊标记（如 <|endoftext|>）按普通文本计数
+  return encoder ? encoder.encode(text, [], []).length : roughlyCountTokens(text);
+}
@@ -3,29 +3,164 @@ import MarkdownEditor, { MarkdownEditorHandle, EditChange } from './components/e
 import WordPreview, { WordPreviewHandle } from './components/preview/WordPreview';
 import Sidebar from './components/sidebar/Sidebar';
 import FormatSettingsPanel, { FormatSettings, defaultFormatSettings } from './components/settings/FormatSettings';
+import PromptTemplatesPanel from './components/settings/PromptTemplates';
+import TraceViewer from './components/settings/TraceViewer';
 import { ThemeProvider, useTheme } from './contexts/ThemeContext';
 import { Sun, Moon } from 'lucide-react';
+import type { LLMConfigType } from './electron';
 import './App.css';
 
 type ModeType = 'build' | 'ask' | 'edit';
 
-interface LLMConfigType {
-  provider: 'qwen' | 'openai' | 'custom';
-  apiKey: string;
-  apiUrl: string;
-  model: string;
-}
-
 interface ProcessStepResult {
   step: 'format' | 'questions' | 'final';
   content: string;
   timestamp: string;
+  chunkCount?: number;     // 分块处理时的分块数
+  elapsedMs?: number;      // 步骤耗时（毫秒）
+  questions?: QuestionAnswer[];   // 步骤2 每道题的解答记录
+  usage?: TokenUsage;      // 本步骤所有请求的实际用量
+  cacheHits?: number;      // 本步骤使用缓存响应的请求数
+}
+
+// Token 用量
+interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  estimated?: boolean;     // 提供商没有返回用量时为估算值
+}
+
+// 按参考价格计算的费用
+interface UsageCost {
+  amount: number;
+  currency: 'CNY' | 'USD';
+}
+
+// 发送前的用量估算（侧边栏工具栏显示）
+interface HomeworkEstimate {
+  model: string;
+  steps: { step: ProcessStepResult['step']; requests: number; inputTokens: number; outputTokens: number; maxRequestTokens: number }[];
+  inputTokens: number;
+  outputTokens: number;
+  cost?: UsageCost;
+  contextWindow?: number;
+  exceedsContext: boolean;
+  approximate: boolean;
+  questionCount: number;
+  chunkCount: number;
+}
+
+// 单道题目的解答记录
+interface QuestionAnswer {
+  id: number;
+  question: string;
+  type?: string;
+  answer: string;
+  keyPoints?: string[];
+  chunkIndex?: number;
+  model?: string;
+  error?: string;          // 解答失败的原因
+}
+
+// Build 模式的处理步骤（侧边栏时间线）
+interface PipelineStep {
+  step: ProcessStepResult['step'];
+  status: 'running' | 'done';
+  startedAt: number;
+  elapsedMs?: number;
+  content?: string;
+  chunkCount?: number;
+  retries?: number;        // 本步骤的请求重试次数
+  questions?: QuestionAnswer[];
+  usage?: TokenUsage;
+  cacheHits?: number;
+}
+
+// 对话消息（Ask 模式发送给 LLM 的历史）
+interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// 传给 LLM 的附件
+interface LLMAttachment {
+  name: string;
+  type: string;
+  content: string;
+}
+
+// 失败后可以继续的 Build 请求
+interface ResumableRun {
+  prompt: string;
+  attachments: LLMAttachment[];
+  completedSteps: ProcessStepResult[];
 }
 
+// 各步骤开始时的状态提示
+const STEP_MESSAGES: Record<ProcessStepResult['step'], string> = {
+  format: '正在分析作业格式要求...',
+  questions: '正在提取题目并解答...',
+  final: '正在生成文档...',
+};
+
+// 多个步骤同时进行时的状态提示中使用的步骤名称
+const STEP_LABELS: Record<ProcessStepResult['step'], string> = {
+  format: '分析格式要求',
+  questions: '提取题目并解答',
+  final: '生成文档',
+};
+
+// 进行中步骤的状态提示：一个步骤时沿用单步提示，多个步骤时合并显示
+const describeRunningSteps = (running: ProcessStepResult['step'][], doneCount: number): string => {
+  if (running.length === 1) return STEP_MESSAGES[running[0]];
+  const done = doneCount > 0 ? `，已完成 ${doneCount} 项` : '';
+  return `正在同时${running.map(step => STEP_LABELS[step]).join('、')}（${running.length} 项进行中${done}）...`;
+};
+
 interface HomeworkProcessResult {
   formatTemplate: ProcessStepResult;
   questionsAnswer: ProcessStepResult;
   finalResult: ProcessStepResult;
+  chunkCount: number;      // 附件内容被切分的块数，无附件时为 0
+  usage?: TokenUsage;      // 本次处理的实际用量
+  cost?: UsageCost;
+  cacheHits?: number;      // 使用缓存响应的请求数
+}
+
+// 完成消息中的用量说明，如 "本次用量 12,345 tokens（输入 10,000 / 输出 2,345），约 ¥0.0123。"
+const describeUsage = (usage?: TokenUsage, cost?: UsageCost): string => {
+  if (!usage) return '';
+  const total = (usage.inputTokens + usage.outputTokens).toLocaleString();
+  const detail = `输入 ${usage.inputTokens.toLocaleString()} / 输出 ${usage.outputTokens.toLocaleString()}`;
+  const price = cost && cost.amount > 0
+    ? `，约 ${cost.currency === 'CNY' ? '¥' : '$'}${cost.amount.toFixed(4)}`
+    : '';
+  return `本次用量${usage.estimated ? '约' : ''} ${total} tokens（${detail}）${price}。`;
+};
+
+interface PageRange {
+  start: number;
+  end: number;
+}
+
+interface PageInfo {
+  pageNumber: number;
+  charCount: number;
+  hasText: boolean;
+  ocrConfidence?: number;  // 通过 OCR 识别时的置信度 0-100
+}
+
+// 附件：每个附件单独提取文本，作为独立来源传给 LLM
+interface Attachment {
+  id: string;
+  filePath: string;
+  name: string;
+  type: string;        // 文件扩展名（不含点）
+  size: number;        // 文件大小（字节）
+  content: string;
+  pages: PageInfo[];
+  pageRange: PageRange | null;
+  encoding?: string;   // 文本文件的编码
 }
 
 interface Message {
@@ -33,6 +168,7 @@ interface Message {
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: Date;
+  mode?: ModeType;     // 发送时的模式，Ask 模式的问答组成对话历史
 }
 
 // 编辑结果接口
@@ -52,9 +188,11 @@ const defaultLLMConfig: LLMConfigType = {
 // localStorage 键名（作为 Electron API 不可用时的回退）
 const STORAGE_KEY = 'work2word_settings';
 
+// 输入停止多久后重新估算用量（毫秒）
+const ESTIMATE_DEBOUNCE_MS = 500;
+
 function App() {
-  const [filePath, setFilePath] = useState<string>('');
-  const [fileContent, setFileContent] = useState<string>('');
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
   const [prompt, setPrompt] = useState<string>('');
   const [messages, setMessages] = useState<Message[]>([]);
   const [settingsLoaded, setSettingsLoaded] = useState<boolean>(false);
@@ -114,6 +252,16 @@ function App() {
   const [error, setError] = useState<string>('');
   const [success, setSuccess] = useState<string>('');
   const [processingStep, setProcessingStep] = useState<string>('');
+  const [steps, setSteps] = useState<PipelineStep[]>([]);
+  const [resumableRun, setResumableRun] = useState<ResumableRun | null>(null);
+  // 最近一次成功的 Build：可单独重新生成某道题的答案，再只重新生成最终文档
+  const [lastBuild, setLastBuild] = useState<ResumableRun | null>(null);
+  const [regeneratingQuestion, setRegeneratingQuestion] = useState<number | null>(null);
+  const [documentOutdated, setDocumentOutdated] = useState<boolean>(false);
+  const [includeDocument, setIncludeDocument] = useState<boolean>(false);
+  const [estimate, setEstimate] = useState<HomeworkEstimate | null>(null);
+  // 最近一次使用了缓存响应的 Build，可以忽略缓存重新生成
+  const [cachedRun, setCachedRun] = useState<ResumableRun | null>(null);
 
   // 模式状态
   const [mode, setMode] = useState<ModeType>('build');
@@ -122,6 +270,8 @@ function App() {
   // 侧边栏可见性
   const [sidebarVisible, setSidebarVisible] = useState<boolean>(true);
   const [formatSidebarVisible, setFormatSidebarVisible] = useState<boolean>(false);
+  const [promptTemplatesVisible, setPromptTemplatesVisible] = useState<boolean>(false);
+  const [traceViewerVisible, setTraceViewerVisible] = useState<boolean>(false);
 
   // 面板宽度状态 (百分比)
   const [formatSidebarWidth, setFormatSidebarWidth] = useState<number>(20);
@@ -142,6 +292,12 @@ function App() {
 
   // 滚动同步相关
   const editorRef = useRef<MarkdownEditorHandle>(null);
+  // 进行中的生成请求，用于停止生成
+  const activeRequestRef = useRef<string | null>(null);
+  const partialTextRef = useRef<string>('');
+  const keepPartialRef = useRef<boolean>(false);
+  // 本次 Build 请求已完成的步骤，失败后用于从失败的步骤继续
+  const completedStepsRef = useRef<ProcessStepResult[]>([]);
   const previewRef = useRef<WordPreviewHandle>(null);
 
   // 处理鼠标按下事件
@@ -303,23 +459,88 @@ function App() {
       }
       
       const dialogResult = await window.electronAPI.openFileDialog();
-      if (dialogResult.canceled || !dialogResult.filePath) {
+      const filePaths = dialogResult.filePaths || (dialogResult.filePath ? [dialogResult.filePath] : []);
+      if (dialogResult.canceled || filePaths.length === 0) {
         return;
       }
       
       setError('');
       setFileLoading(true);
-      const response = await window.electronAPI.processFile(dialogResult.filePath);
-      if (response.success && response.content) {
-        setFilePath(dialogResult.filePath);
-        setFileContent(response.content);
-        
+      const added: Attachment[] = [];
+      const errors: string[] = [];
+      for (const filePath of filePaths) {
+        const fileName = filePath.split(/[\\/]/).pop() || filePath;
+        // 跳过已附加的文件
+        if (attachments.some(attachment => attachment.filePath === filePath)) {
+          continue;
+        }
+
+        const response = await window.electronAPI.processFile(filePath);
+        if (response.success && response.content) {
+          added.push({
+            id: `${Date.now()}-${added.length}`,
+            filePath,
+            name: fileName,
+            type: (fileName.match(/\.([^.]+)$/)?.[1] || '').toLowerCase(),
+            size: response.fileSize || 0,
+            content: response.content,
+            pages: response.pages || [],
+            pageRange: null,
+            encoding: response.encoding,
+          });
+        } else {
+          errors.push(`${fileName}: ${response.error || '处理文件失败'}`);
+        }
+      }
+
+      if (added.length > 0) {
+        setAttachments(prev => [...prev, ...added]);
+
         // 添加系统消息
-        const fileName = dialogResult.filePath.split('/').pop() || dialogResult.filePath;
         setMessages(prev => [...prev, {
           id: Date.now().toString(),
           role: 'system',
-          content: `已上传文件: ${fileName}`,
+          content: `已上传文件: ${added.map(attachment => attachment.name).join('、')}`,
+          timestamp: new Date()
+        }]);
+      }
+      if (errors.length > 0) {
+        setError(errors.join('；'));
+      }
+    } catch (err: any) {
+      console.error('处理文件错误:', err);
+      setError(err.message || '处理文件失败');
+    } finally {
+      setFileLoading(false);
+    }
+  };
+
+  // 使用新的选项重新提取附件文本
+  const reprocessAttachment = async (
+    id: string,
+    changes: Partial<Pick<Attachment, 'pageRange' | 'encoding'>>,
+    message: string
+  ) => {
+    const target = attachments.find(attachment => attachment.id === id);
+    if (!target || !window.electronAPI) return;
+
+    const updated = { ...target, ...changes };
+    try {
+      setError('');
+      setFileLoading(true);
+      const response = await window.electronAPI.processFile(target.filePath, {
+        pageRange: updated.pageRange || undefined,
+        encoding: updated.encoding,
+      });
+      if (response.success && response.content) {
+        const content = response.content;
+        setAttachments(prev => prev.map(attachment =>
+          attachment.id === id ? { ...updated, content } : attachment
+        ));
+        setMessages(prev => [...prev, {
+          id: Date.now().toString(),
+          role: 'system',
+          content: `${target.name}: ${message}`,
           timestamp: new Date()
         }]);
       } else {
@@ -333,13 +554,161 @@ function App() {
     }
   };
 
+  // 切换 PDF 页码范围后重新提取文本
+  const handlePageRangeChange = (id: string, range: PageRange | null) =>
+    reprocessAttachment(
+      id,
+      { pageRange: range },
+      range ? `已选择第 ${range.start}-${range.end} 页` : '已选择全部页面'
+    );
+
+  // 自动检测的编码不正确时，按用户指定的编码重新解码
+  const handleEncodingChange = (id: string, encoding: string) =>
+    reprocessAttachment(id, { encoding }, `已切换为 ${encoding} 编码`);
+
+  const handleFileRemove = (id: string) => {
+    setAttachments(prev => prev.filter(attachment => attachment.id !== id));
+  };
+
+  // 传给 LLM 的附件来源
+  const getLLMAttachments = () =>
+    attachments.map(({ name, type, content }) => ({ name, type, content }));
+
+  // Build 模式下输入、附件或模型变化后重新估算用量，显示在侧边栏工具栏
+  useEffect(() => {
+    if (mode !== 'build' || (!prompt.trim() && attachments.length === 0) || !window.electronAPI?.estimateHomework) {
+      setEstimate(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const response = await window.electronAPI.estimateHomework(prompt, getLLMAttachments(), llmConfig);
+      if (!cancelled) setEstimate(response.success && response.estimate ? response.estimate : null);
+    }, ESTIMATE_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [mode, prompt, attachments, llmConfig]);
+
+  // 新增或更新指定 id 的消息（流式输出时助手消息会不断增长）
+  const upsertMessage = (message: Message) => {
+    setMessages(prev => prev.some(m => m.id === message.id)
+      ? prev.map(m => m.id === message.id ? message : m)
+      : [...prev, message]);
+  };
+
+  // 订阅指定请求的流式输出，增量文本按动画帧合并后回调完整文本，返回取消订阅函数
+  const subscribeTokens = (requestId: string, onText: (text: string) => void) => {
+    let text = '';
+    let frame = 0;
+    partialTextRef.current = '';
+    const unsubscribe = window.electronAPI.onLLMToken((id, token) => {
+      if (id !== requestId) return;
+      text += token;
+      partialTextRef.current = text;
+      if (!frame) {
+        frame = requestAnimationFrame(() => {
+          frame = 0;
+          onText(text);
+        });
+      }
+    });
+    return () => {
+      unsubscribe();
+      cancelAnimationFrame(frame);
+    };
+  };
+
+  // 订阅指定请求的处理步骤事件，更新步骤时间线和合并的状态提示，返回取消订阅函数
+  const subscribeSteps = (requestId: string) => {
+    const running: ProcessStepResult['step'][] = [];
+    let doneCount = 0;
+    return window.electronAPI.onProcessStep((id, event) => {
+      if (id !== requestId) return;
+      if (event.status === 'start') {
+        running.push(event.step);
+        setProcessingStep(describeRunningSteps(running, doneCount));
+        setSteps(prev => [
+          ...prev.filter(step => step.step !== event.step),
+          { step: event.step, status: 'running', startedAt: Date.now() }
+        ]);
+      } else {
+        if (running.includes(event.step)) {
+          running.splice(running.indexOf(event.step), 1);
+          doneCount++;
+          if (running.length > 0) setProcessingStep(describeRunningSteps(running, doneCount));
+        }
+        if (event.result) {
+          completedStepsRef.current = [...completedStepsRef.current, event.result];
+        }
+        const done: PipelineStep = {
+          step: event.step,
+          status: 'done',
+          startedAt: Date.now(),
+          elapsedMs: event.elapsedMs,
+          content: event.result?.content,
+          chunkCount: event.result?.chunkCount,
+          questions: event.result?.questions,
+          usage: event.result?.usage,
+          cacheHits: event.result?.cacheHits
+        };
+        // 从失败的步骤继续时，复用的步骤没有开始事件
+        setSteps(prev => prev.some(step => step.step === event.step)
+          ? prev.map(step => step.step === event.step ? { ...done, startedAt: step.startedAt, retries: step.retries } : step)
+          : [...prev, done]);
+      }
+    });
+  };
+
+  // 订阅指定请求的重试通知，在状态提示和步骤时间线中显示，返回取消订阅函数
+  const subscribeRetries = (requestId: string) =>
+    window.electronAPI.onLLMRetry((id, info) => {
+      if (id !== requestId) return;
+      const seconds = Math.ceil(info.delayMs / 1000);
+      setProcessingStep(`${info.reason}，${seconds} 秒后重试（${info.attempt}/${info.maxRetries}）...`);
+      // 多个步骤同时进行时只计入发生重试的步骤
+      setSteps(prev => prev.map(step => step.status === 'running' && (!info.step || info.step === step.step)
+        ? { ...step, retries: (step.retries ?? 0) + 1 }
+        : step));
+    });
+
+  // 停止生成：已有部分输出时由用户决定是否保留
+  const handleStopGeneration = async () => {
+    const requestId = activeRequestRef.current;
+    if (!requestId || !window.electronAPI) return;
+
+    setProcessingStep('正在停止...');
+    const cancelling = window.electronAPI.cancelRequest(requestId);
+    keepPartialRef.current = !!partialTextRef.current.trim() && confirm('是否保留已生成的部分内容？');
+    await cancelling;
+  };
+
+  const addStoppedMessage = () => {
+    setMessages(prev => [...prev, {
+      id: Date.now().toString(),
+      role: 'system',
+      content: keepPartialRef.current ? '已停止生成，保留了已生成的部分内容' : '已停止生成',
+      timestamp: new Date()
+    }]);
+  };
+
+  // 最近一次 Ask 提问没有得到回答（失败或停止）时去掉其模式，不计入之后的对话历史，避免历史中出现连续的用户消息
+  const excludeUnansweredQuestion = () => {
+    setMessages(prev => {
+      const index = prev.map(m => m.role === 'user' && m.mode === 'ask').lastIndexOf(true);
+      return index === -1 ? prev : prev.map((m, i) => i === index ? { ...m, mode: undefined } : m);
+    });
+  };
+
   const handleSendMessage = async () => {
     if (!prompt.trim()) {
       setError('请输入内容要求');
       return;
     }
 
-    if (!llmConfig.apiKey && llmConfig.provider !== 'custom') {
+    // 自定义 API 和本地模型不强制要求 API Key
+    if (!llmConfig.apiKey && llmConfig.provider !== 'custom' && llmConfig.provider !== 'local') {
       setError('请先配置 API Key');
       return;
     }
@@ -349,50 +718,106 @@ function App() {
       return;
     }
 
+    if (mode === 'build' && estimate?.exceedsContext && !window.confirm(
+      `${estimate.approximate ? '按粗略估算，' : ''}单次请求约需 ${Math.max(...estimate.steps.map(step => step.maxRequestTokens)).toLocaleString()} tokens，` +
+      `超出模型 ${estimate.model} 的上下文长度（${estimate.contextWindow?.toLocaleString()} tokens），请求可能失败或内容被截断${estimate.approximate ? '（估算可能有较大误差）' : ''}。确定继续发送吗？`
+    )) {
+      return;
+    }
+
     // 添加用户消息
     const userMessage: Message = {
       id: Date.now().toString(),
       role: 'user',
       content: prompt,
-      timestamp: new Date()
+      timestamp: new Date(),
+      mode
     };
     setMessages(prev => [...prev, userMessage]);
     const currentPrompt = prompt;
     setPrompt('');
 
+    await runRequest(currentPrompt, mode, getLLMAttachments());
+  };
+
+  // 发送 LLM 请求；completedSteps 为 Build 模式从失败的步骤继续时复用的已完成步骤，bypassCache 时不使用缓存的响应
+  const runRequest = async (
+    currentPrompt: string,
+    requestMode: ModeType,
+    llmAttachments: LLMAttachment[],
+    completedSteps: ProcessStepResult[] = [],
+    bypassCache: boolean = false
+  ) => {
+    const requestId = `${requestMode}-${Date.now()}`;
+    activeRequestRef.current = requestId;
+    partialTextRef.current = '';
+    keepPartialRef.current = false;
+
+    setResumableRun(null);
+    setLastBuild(null);
+    setCachedRun(null);
+    setDocumentOutdated(false);
+
+    const stopRetries = subscribeRetries(requestId);
+    let stopStreaming: (() => void) | null = null;
     try {
       setError('');
       setSuccess('');
+      setSteps([]);
       setLoading(true);
 
       // Ask 模式：直接在对话框中回答，不更新编辑器
-      if (mode === 'ask') {
+      if (requestMode === 'ask') {
         setProcessingStep('AI 正在思考...');
-        const response = await window.electronAPI.callLLM(
-          currentPrompt,
-          fileContent || '',
-          llmConfig
+        const assistantId = (Date.now() + 1).toString();
+        const assistantTimestamp = new Date();
+        const answer = (content: string): Message =>
+          ({ id: assistantId, role: 'assistant', content, timestamp: assistantTimestamp, mode: 'ask' });
+        stopStreaming = subscribeTokens(requestId, (text) => {
+          setProcessingStep('AI 正在回答...');
+          upsertMessage(answer(text));
+        });
+
+        // 之前 Ask 模式的问答加上本次提问
+        const history: ChatMessage[] = [
+          ...messages
+            .filter(m => m.mode === 'ask' && m.role !== 'system')
+            .map(m => ({ role: m.role as ChatMessage['role'], content: m.content })),
+          { role: 'user', content: currentPrompt }
+        ];
+        const response = await window.electronAPI.chat(
+          history,
+          llmAttachments,
+          llmConfig,
+          includeDocument && result.trim() ? result : undefined,
+          requestId
         );
+        stopStreaming();
 
         if (response.success && response.result) {
-          setMessages(prev => [...prev, {
-            id: (Date.now() + 1).toString(),
-            role: 'assistant',
-            content: response.result,
-            timestamp: new Date()
-          }]);
+          upsertMessage(answer(response.result));
+        } else if (response.cancelled) {
+          if (keepPartialRef.current) {
+            upsertMessage(answer(partialTextRef.current));
+          } else {
+            setMessages(prev => prev.filter(m => m.id !== assistantId));
+            excludeUnansweredQuestion();
+          }
+          addStoppedMessage();
         } else {
+          // 失败的回答不带 mode，不计入对话历史
           setError(response.error || '处理失败');
-          setMessages(prev => [...prev, {
-            id: (Date.now() + 1).toString(),
+          excludeUnansweredQuestion();
+          upsertMessage({
+            id: assistantId,
             role: 'assistant',
             content: `处理失败: ${response.error || '未知错误'}`,
-            timestamp: new Date()
-          }]);
+            timestamp: assistantTimestamp
+          });
         }
       }
       // Edit 模式：编辑现有内容
-      else if (mode === 'edit') {
+      else if (requestMode === 'edit') {
         if (!result.trim()) {
           setError('编辑模式需要先有内容，请先使用 Build 模式生成内容');
           setLoading(false);
@@ -403,7 +828,8 @@ function App() {
         const response = await window.electronAPI.editContent(
           currentPrompt,
           result,
-          llmConfig
+          llmConfig,
+          requestId
         );
 
         if (response.success && response.result) {
@@ -426,6 +852,8 @@ function App() {
               timestamp: new Date()
             }]);
           }
+        } else if (response.cancelled) {
+          addStoppedMessage();
         } else {
           setError(response.error || '编辑失败');
           setMessages(prev => [...prev, {
@@ -437,49 +865,79 @@ function App() {
         }
       }
       // Build 模式：根据提示词和文件生成文本到编辑器
-      else if (mode === 'build') {
-        setProcessingStep(fileContent ? '正在分析作业格式要求...' : '正在生成内容...');
+      else if (requestMode === 'build') {
+        setProcessingStep(llmAttachments.length > 0 ? '正在分析作业格式要求...' : '正在生成内容...');
+        // 最终文档边生成边写入编辑器，停止生成且不保留时恢复原内容
+        const previousResult = result;
+        const stopTokens = subscribeTokens(requestId, (text) => {
+          setProcessingStep('正在生成文档...');
+          setResult(text);
+        });
+        const stopSteps = subscribeSteps(requestId);
+        completedStepsRef.current = [];
+        stopStreaming = () => {
+          stopTokens();
+          stopSteps();
+        };
+
         const response = await window.electronAPI.processHomeworkSteps(
           currentPrompt,
-          fileContent || '',
-          llmConfig
+          llmAttachments,
+          llmConfig,
+          requestId,
+          completedSteps,
+          bypassCache
         );
+        stopStreaming();
 
         if (response.success && response.result) {
           const processResult = response.result as HomeworkProcessResult;
           setResult(processResult.finalResult.content);
+          if (processResult.questionsAnswer.questions) {
+            setLastBuild({
+              prompt: currentPrompt,
+              attachments: llmAttachments,
+              completedSteps: [processResult.formatTemplate, processResult.questionsAnswer]
+            });
+          }
+          if (processResult.cacheHits) {
+            setCachedRun({ prompt: currentPrompt, attachments: llmAttachments, completedSteps: [] });
+          }
 
           // 添加助手消息
+          const chunkNote = processResult.chunkCount > 1
+            ? `附件内容较长，已分 ${processResult.chunkCount} 块处理并合并结果。`
+            : '';
+          const cacheNote = processResult.cacheHits
+            ? `其中 ${processResult.cacheHits} 次请求使用了缓存的结果，可在步骤列表下方忽略缓存重新生成。`
+            : '';
+          const failedCount = processResult.questionsAnswer.questions?.filter(question => question.error).length ?? 0;
+          const failedNote = failedCount > 0
+            ? `有 ${failedCount} 道题解答失败，可在步骤时间线中单独重新生成后更新文档。`
+            : '';
           setMessages(prev => [...prev, {
             id: (Date.now() + 1).toString(),
             role: 'assistant',
-            content: '处理完成！已生成 Markdown 文档，你可以在左侧编辑器中查看和修改。',
+            content: `处理完成！${chunkNote}已生成 Markdown 文档，你可以在左侧编辑器中查看和修改。${describeUsage(processResult.usage, processResult.cost)}${cacheNote}${failedNote}`,
             timestamp: new Date()
           }]);
 
-          // 保存调试数据
-          const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-          await window.electronAPI.saveDebugData(
-            processResult.formatTemplate,
-            `format_template_${timestamp}.json`
-          );
-          await window.electronAPI.saveDebugData(
-            processResult.questionsAnswer,
-            `questions_answer_${timestamp}.json`
-          );
-          await window.electronAPI.saveDebugData(
-            processResult.finalResult,
-            `final_result_${timestamp}.json`
-          );
-
           setSuccess('处理完成');
           setTimeout(() => setSuccess(''), 3000);
+        } else if (response.cancelled) {
+          setResult(keepPartialRef.current ? partialTextRef.current : previousResult);
+          addStoppedMessage();
         } else {
+          // 保留已完成的步骤，用户可以从失败的步骤继续
+          const completed = completedStepsRef.current;
+          if (completed.length > 0) {
+            setResumableRun({ prompt: currentPrompt, attachments: llmAttachments, completedSteps: completed });
+          }
           setError(response.error || '处理失败');
           setMessages(prev => [...prev, {
             id: (Date.now() + 1).toString(),
             role: 'assistant',
-            content: `处理失败: ${response.error || '未知错误'}`,
+            content: `处理失败: ${response.error || '未知错误'}${completed.length > 0 ? '。已完成的步骤已保留，可以从失败的步骤继续。' : ''}`,
             timestamp: new Date()
           }]);
         }
@@ -487,12 +945,104 @@ function App() {
     } catch (err: any) {
       console.error('处理错误:', err);
       setError(err.message || '处理失败');
+      if (requestMode === 'ask') excludeUnansweredQuestion();
     } finally {
+      stopStreaming?.();
+      stopRetries();
+      activeRequestRef.current = null;
+      // 失败或停止时未完成的步骤不再计时
+      setSteps(prev => prev.filter(step => step.status === 'done'));
       setLoading(false);
       setProcessingStep('');
     }
   };
 
+  // 从失败的步骤继续：复用已完成步骤的结果，只重新执行失败及之后的步骤
+  const handleResumeBuild = async () => {
+    if (!resumableRun || loading) return;
+    setMessages(prev => [...prev, {
+      id: Date.now().toString(),
+      role: 'system',
+      content: '从失败的步骤继续处理',
+      timestamp: new Date()
+    }]);
+    await runRequest(resumableRun.prompt, 'build', resumableRun.attachments, resumableRun.completedSteps);
+  };
+
+  // 重新生成单道题目的答案，model 为空时使用当前模型
+  const handleRegenerateAnswer = async (questionId: number, model?: string) => {
+    const questionsStep = lastBuild?.completedSteps.find(step => step.step === 'questions');
+    if (!lastBuild || !questionsStep || loading || regeneratingQuestion !== null || !window.electronAPI) return;
+
+    const requestId = `regenerate-${Date.now()}`;
+    activeRequestRef.current = requestId;
+    partialTextRef.current = '';
+    keepPartialRef.current = false;
+
+    setRegeneratingQuestion(questionId);
+    setError('');
+    setLoading(true);
+    setProcessingStep(`正在重新生成第 ${questionId} 题的答案...`);
+    const stopRetries = subscribeRetries(requestId);
+    try {
+      const response = await window.electronAPI.regenerateAnswer(
+        questionsStep,
+        questionId,
+        lastBuild.prompt,
+        lastBuild.attachments,
+        model ? { ...llmConfig, model } : llmConfig,
+        requestId
+      );
+      if (response.cancelled) {
+        addStoppedMessage();
+      } else if (response.success && response.result) {
+        const updated = response.result;
+        setLastBuild(prev => prev && {
+          ...prev,
+          completedSteps: prev.completedSteps.map(step => step.step === 'questions' ? updated : step)
+        });
+        setSteps(prev => prev.map(step => step.step === 'questions'
+          ? { ...step, content: updated.content, questions: updated.questions }
+          : step));
+        setDocumentOutdated(true);
+      } else {
+        setError(`重新生成第 ${questionId} 题失败: ${response.error || '未知错误'}`);
+      }
+    } catch (err: any) {
+      setError(err.message || '重新生成失败');
+    } finally {
+      stopRetries();
+      activeRequestRef.current = null;
+      setRegeneratingQuestion(null);
+      setLoading(false);
+      setProcessingStep('');
+    }
+  };
+
+  // 用更新后的答案重新生成文档：复用步骤1、2 的结果，只重新执行最终文档
+  const handleRebuildDocument = async () => {
+    if (!lastBuild || loading) return;
+    setMessages(prev => [...prev, {
+      id: Date.now().toString(),
+      role: 'system',
+      content: '使用更新后的答案重新生成文档',
+      timestamp: new Date()
+    }]);
+    await runRequest(lastBuild.prompt, 'build', lastBuild.attachments, lastBuild.completedSteps);
+  };
+
+  // 忽略缓存的响应，重新发送上一次 Build 请求
+  const handleRegenerateWithoutCache = async () => {
+    if (!cachedRun || loading) return;
+    setMessages(prev => [...prev, {
+      id: Date.now().toString(),
+      role: 'system',
+      content: '忽略缓存重新生成',
+      timestamp: new Date()
+    }]);
+    await runRequest(cachedRun.prompt, 'build', cachedRun.attachments, [], true);
+  };
+
   // 接受单个修改
   const handleAcceptChange = (index: number) => {
     const change = pendingChanges[index];
@@ -665,6 +1215,24 @@ function App() {
             <path d="M3 3h18v18H3V3zm16 16V5H5v14h14zM7 7h4v4H7V7zm0 6h4v4H7v-4zm6-6h4v2h-4V7zm0 4h4v2h-4v-2zm0 4h4v2h-4v-2z"/>
           </svg>
         </div>
+        <div
+          className={`activity-icon ${promptTemplatesVisible ? 'active' : ''}`}
+          title="提示词模版"
+          onClick={() => setPromptTemplatesVisible(true)}
+        >
+          <svg width="24" height="24" viewBox="0 0 24 24" fill="currentColor">
+            <path d="M9.4 16.6 4.8 12l4.6-4.6L8 6l-6 6 6 6 1.4-1.4zm5.2 0 4.6-4.6-4.6-4.6L16 6l6 6-6 6-1.4-1.4z"/>
+          </svg>
+        </div>
+        <div
+          className={`activity-icon ${traceViewerVisible ? 'active' : ''}`}
+          title="请求记录"
+          onClick={() => setTraceViewerVisible(true)}
+        >
+          <svg width="24" height="24" viewBox="0 0 24 24" fill="currentColor">
+            <path d="M13 3a9 9 0 0 0-9 9H1l3.89 3.89.07.14L9 12H6c0-3.87 3.13-7 7-7s7 3.13 7 7-3.13 7-7 7c-1.93 0-3.68-.79-4.94-2.06l-1.42 1.42A8.954 8.954 0 0 0 13 21a9 9 0 0 0 0-18zm-1 5v5l4.28 2.54.72-1.21-3.5-2.08V8H12z"/>
+          </svg>
+        </div>
         {/* 主题切换按钮 */}
         <ThemeToggleButton />
       </div>
@@ -733,17 +1301,26 @@ function App() {
         {sidebarVisible && (
           <div className="panel sidebar-panel" style={{ width: `${widths.sidebar}%` }}>
             <Sidebar
-              filePath={filePath}
+              attachments={attachments}
               onFileSelect={handleFileSelect}
-              onFileRemove={() => {
-                setFilePath('');
-                setFileContent('');
-              }}
+              onFileRemove={handleFileRemove}
               fileLoading={fileLoading}
+              onPageRangeChange={handlePageRangeChange}
+              onEncodingChange={handleEncodingChange}
               prompt={prompt}
               onPromptChange={setPrompt}
               onSendMessage={handleSendMessage}
+              onStopGeneration={handleStopGeneration}
+              onResume={resumableRun ? handleResumeBuild : undefined}
+              includeDocument={includeDocument}
+              onRegenerateAnswer={lastBuild ? handleRegenerateAnswer : undefined}
+              regeneratingQuestion={regeneratingQuestion}
+              onRebuildDocument={documentOutdated ? handleRebuildDocument : undefined}
+              onRegenerateWithoutCache={cachedRun ? handleRegenerateWithoutCache : undefined}
+              onIncludeDocumentChange={setIncludeDocument}
               messages={messages}
+              steps={steps}
+              estimate={estimate}
               llmConfig={llmConfig}
               onConfigChange={setLLMConfig}
               onOpenFormatSettings={() => setFormatSidebarVisible(true)}
@@ -759,11 +1336,25 @@ function App() {
         )}
       </div>
 
+      {/* 提示词模版设置 */}
+      <PromptTemplatesPanel
+        visible={promptTemplatesVisible}
+        onClose={() => setPromptTemplatesVisible(false)}
+      />
+
+      {/* 请求记录查看器 */}
+      <TraceViewer
+        visible={traceViewerVisible}
+        onClose={() => setTraceViewerVisible(false)}
+      />
+
       {/* 状态栏 */}
       <div className="status-bar">
         <div className="status-left">
           <span className="status-item">
-            {filePath ? `📄 ${filePath.split('/').pop()}` : '未选择文件'}
+            {attachments.length === 0 && '未选择文件'}
+            {attachments.length === 1 && `📄 ${attachments[0].name}`}
+            {attachments.length > 1 && `📄 ${attachments.length} 个附件`}
           </span>
           <span className={`status-item mode-indicator mode-${mode}`}>
             {mode === 'build' && '🔨 Build'}
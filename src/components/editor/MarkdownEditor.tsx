@@ -159,8 +159,8 @@ const MarkdownEditor = forwardRef<MarkdownEditorHandle, MarkdownEditorProps>(({
     try {
       const result = await window.electronAPI.openMarkdownFileDialog();
       if (!result.canceled && result.filePath) {
-        // 调用 processFile 来读取文件内容
-        const fileResult = await window.electronAPI.processFile(result.filePath);
+        // 调用 processFile 来读取文件内容，Word 文档转换为保留结构的 Markdown
+        const fileResult = await window.electronAPI.processFile(result.filePath, { format: 'markdown' });
         if (fileResult.success && fileResult.content) {
           const content = fileResult.content;
           // 如果编辑器已有内容，询问是否追加
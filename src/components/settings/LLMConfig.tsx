@@ -3,10 +3,11 @@ import { Settings } from 'lucide-react';
 import './LLMConfig.css';
 
 interface LLMConfigType {
-  provider: 'qwen' | 'openai' | 'custom';
+  provider: 'qwen' | 'openai' | 'custom' | 'local';
   apiKey: string;
   apiUrl: string;
   model: string;
+  customMode?: 'openai' | 'raw';
 }
 
 interface LLMConfigProps {
@@ -33,10 +34,11 @@ const LLMConfig: React.FC<LLMConfigProps> = ({ config, onChange, disabled }) =>
           <select
             value={config.provider}
             onChange={(e) => {
-              const provider = e.target.value as 'qwen' | 'openai' | 'custom';
+              const provider = e.target.value as LLMConfigType['provider'];
               updateConfig({
                 provider,
                 model: provider === 'qwen' ? 'qwen-turbo' : provider === 'openai' ? 'gpt-3.5-turbo' : '',
+                apiUrl: provider === 'local' ? 'http://localhost:11434' : config.apiUrl,
               });
             }}
             disabled={disabled}
@@ -44,6 +46,7 @@ const LLMConfig: React.FC<LLMConfigProps> = ({ config, onChange, disabled }) =>
           >
             <option value="qwen">通义千问 (Qwen)</option>
             <option value="openai">OpenAI</option>
+            <option value="local">本地模型 (Ollama / llama.cpp)</option>
             <option value="custom">自定义 API</option>
           </select>
         </div>
@@ -60,15 +63,15 @@ const LLMConfig: React.FC<LLMConfigProps> = ({ config, onChange, disabled }) =>
           />
         </div>
 
-        {config.provider === 'custom' && (
+        {(config.provider === 'custom' || config.provider === 'local') && (
           <div className="config-field">
-            <label>API URL</label>
+            <label>{config.provider === 'local' ? '服务地址' : 'API URL'}</label>
             <input
               type="text"
               value={config.apiUrl}
               onChange={(e) => updateConfig({ apiUrl: e.target.value })}
               disabled={disabled}
-              placeholder="https://api.example.com/v1/chat"
+              placeholder={config.provider === 'local' ? 'http://localhost:11434' : 'https://api.example.com/v1/chat'}
               className="config-input"
             />
           </div>
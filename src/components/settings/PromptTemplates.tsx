@@ -0,0 +1,289 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, FileText, Copy, RotateCcw, Trash2, Check, Loader2 } from 'lucide-react';
+import './PromptTemplates.css';
+
+// 提示词模版类型
+type PromptStep = 'format' | 'questions' | 'answer' | 'final' | 'direct' | 'merge' | 'edit' | 'chat';
+
+interface PromptTemplate {
+  id: string;
+  step: PromptStep;
+  name: string;
+  content: string;
+  builtin?: boolean;       // 内置模版：不能删除，可以恢复默认内容
+}
+
+interface PromptTemplateLibrary {
+  templates: PromptTemplate[];
+  active: Partial<Record<PromptStep, string>>;   // 各步骤选用的模版 id
+}
+
+interface PromptStepInfo {
+  step: PromptStep;
+  name: string;
+  description: string;
+  variables: { name: string; description: string }[];
+  json?: boolean;
+}
+
+interface PromptTemplatesPanelProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const getActiveId = (library: PromptTemplateLibrary, step: PromptStep) =>
+  library.active[step] || `default-${step}`;
+
+const PromptTemplatesPanel: React.FC<PromptTemplatesPanelProps> = ({ visible, onClose }) => {
+  const [library, setLibrary] = useState<PromptTemplateLibrary | null>(null);
+  const [steps, setSteps] = useState<PromptStepInfo[]>([]);
+  const [defaults, setDefaults] = useState<Partial<Record<PromptStep, string>>>({});
+  const [currentStep, setCurrentStep] = useState<PromptStep>('format');
+  const [selectedId, setSelectedId] = useState<string>('default-format');
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [saved, setSaved] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // 打开时读取模版库
+  useEffect(() => {
+    if (!visible || !window.electronAPI?.loadPromptTemplates) return;
+    setError('');
+    setDirty(false);
+    window.electronAPI.loadPromptTemplates().then(response => {
+      if (response.success && response.library) {
+        setLibrary(response.library);
+        setSteps(response.steps || []);
+        setDefaults(response.defaults || {});
+        setSelectedId(getActiveId(response.library, currentStep));
+      } else {
+        setError(response.error || '加载提示词模版失败');
+      }
+    });
+  }, [visible]);
+
+  if (!visible) return null;
+
+  const stepInfo = steps.find(info => info.step === currentStep);
+  const stepTemplates = library?.templates.filter(template => template.step === currentStep) || [];
+  const selected = stepTemplates.find(template => template.id === selectedId) || stepTemplates[0];
+  const activeId = library ? getActiveId(library, currentStep) : '';
+  const isModified = !!selected?.builtin && selected.content !== defaults[currentStep];
+
+  const updateLibrary = (update: (library: PromptTemplateLibrary) => PromptTemplateLibrary) => {
+    setLibrary(prev => prev && update(prev));
+    setDirty(true);
+    setSaved(false);
+  };
+
+  const updateSelected = (updates: Partial<PromptTemplate>) => {
+    if (!selected) return;
+    updateLibrary(prev => ({
+      ...prev,
+      templates: prev.templates.map(template => template.id === selected.id ? { ...template, ...updates } : template),
+    }));
+  };
+
+  const selectStep = (step: PromptStep) => {
+    setCurrentStep(step);
+    if (library) setSelectedId(getActiveId(library, step));
+  };
+
+  const handleUse = () => {
+    if (!selected) return;
+    updateLibrary(prev => ({ ...prev, active: { ...prev.active, [currentStep]: selected.id } }));
+  };
+
+  // 复制为新的自定义模版，并切换到新模版编辑
+  const handleDuplicate = () => {
+    if (!selected) return;
+    const copy: PromptTemplate = {
+      id: `custom-${Date.now()}`,
+      step: currentStep,
+      name: `${selected.builtin ? '默认模版' : selected.name} 副本`,
+      content: selected.content,
+    };
+    updateLibrary(prev => ({ ...prev, templates: [...prev.templates, copy] }));
+    setSelectedId(copy.id);
+  };
+
+  const handleReset = () => {
+    const content = defaults[currentStep];
+    if (content !== undefined && window.confirm('确定将默认模版恢复为应用自带的提示词吗？')) {
+      updateSelected({ content });
+    }
+  };
+
+  // 删除自定义模版，正在使用时改回默认模版
+  const handleDelete = () => {
+    if (!selected || selected.builtin || !window.confirm(`确定删除模版“${selected.name}”吗？`)) return;
+    updateLibrary(prev => {
+      const active = { ...prev.active };
+      if (active[currentStep] === selected.id) delete active[currentStep];
+      return { templates: prev.templates.filter(template => template.id !== selected.id), active };
+    });
+    setSelectedId(`default-${currentStep}`);
+  };
+
+  // 在光标处插入变量
+  const insertVariable = (name: string) => {
+    const textarea = textareaRef.current;
+    if (!selected || !textarea) return;
+    const variable = `{{${name}}}`;
+    const { selectionStart, selectionEnd } = textarea;
+    updateSelected({
+      content: selected.content.slice(0, selectionStart) + variable + selected.content.slice(selectionEnd),
+    });
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + variable.length, selectionStart + variable.length);
+    });
+  };
+
+  const handleSave = async () => {
+    if (!library) return;
+    setSaving(true);
+    setError('');
+    try {
+      const response = await window.electronAPI.savePromptTemplates(library);
+      if (response.success && response.library) {
+        setLibrary(response.library);
+        setDirty(false);
+        setSaved(true);
+      } else {
+        setError(response.error || '保存失败');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (dirty && !window.confirm('提示词模版有未保存的修改，确定关闭吗？')) return;
+    onClose();
+  };
+
+  return (
+    <div className="format-settings-overlay" onClick={handleClose}>
+      <div className="prompt-templates-panel" onClick={(e) => e.stopPropagation()}>
+        <div className="format-settings-header">
+          <FileText size={16} />
+          <span>提示词模版</span>
+          <button className="close-btn" onClick={handleClose} title="关闭">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="prompt-templates-body">
+          {/* 步骤列表 */}
+          <div className="prompt-step-list">
+            {steps.map(info => (
+              <button
+                key={info.step}
+                className={`prompt-step-item ${info.step === currentStep ? 'active' : ''}`}
+                onClick={() => selectStep(info.step)}
+                title={info.description}
+              >
+                {info.name}
+              </button>
+            ))}
+          </div>
+
+          {library && selected && stepInfo ? (
+            <div className="prompt-editor">
+              <div className="prompt-step-description">
+                {stepInfo.description}
+                {stepInfo.json && <span className="prompt-json-note">需要输出 JSON，结构不符时会自动要求模型修正</span>}
+              </div>
+
+              <div className="prompt-template-tabs">
+                {stepTemplates.map(template => (
+                  <button
+                    key={template.id}
+                    className={`prompt-template-tab ${template.id === selected.id ? 'active' : ''}`}
+                    onClick={() => setSelectedId(template.id)}
+                  >
+                    {template.id === activeId && <Check size={12} />}
+                    {template.builtin ? '默认模版' : template.name}
+                  </button>
+                ))}
+              </div>
+
+              <div className="prompt-template-actions">
+                {selected.builtin ? (
+                  <span className="prompt-template-name">默认模版{isModified && '（已修改）'}</span>
+                ) : (
+                  <input
+                    type="text"
+                    className="prompt-template-name-input"
+                    value={selected.name}
+                    onChange={(e) => updateSelected({ name: e.target.value })}
+                    placeholder="模版名称"
+                  />
+                )}
+                <button onClick={handleUse} disabled={selected.id === activeId} title="此步骤使用这个模版">
+                  <Check size={12} />
+                  {selected.id === activeId ? '使用中' : '使用'}
+                </button>
+                <button onClick={handleDuplicate} title="复制为新模版">
+                  <Copy size={12} />
+                  复制
+                </button>
+                {selected.builtin ? (
+                  <button onClick={handleReset} disabled={!isModified} title="恢复应用自带的提示词">
+                    <RotateCcw size={12} />
+                    恢复默认
+                  </button>
+                ) : (
+                  <button onClick={handleDelete} title="删除这个模版">
+                    <Trash2 size={12} />
+                    删除
+                  </button>
+                )}
+              </div>
+
+              {stepInfo.variables.length > 0 && (
+                <div className="prompt-variables">
+                  {stepInfo.variables.map(variable => (
+                    <button
+                      key={variable.name}
+                      className="prompt-variable"
+                      onClick={() => insertVariable(variable.name)}
+                      title={`${variable.description}（点击插入）`}
+                    >
+                      {`{{${variable.name}}}`}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              <textarea
+                ref={textareaRef}
+                className="prompt-content"
+                value={selected.content}
+                onChange={(e) => updateSelected({ content: e.target.value })}
+                spellCheck={false}
+              />
+            </div>
+          ) : (
+            <div className="prompt-editor prompt-loading">
+              {error || <Loader2 size={16} className="spin" />}
+            </div>
+          )}
+        </div>
+
+        <div className="format-settings-footer prompt-templates-footer">
+          {error && library && <span className="prompt-status error">{error}</span>}
+          {saved && !dirty && <span className="prompt-status">已保存，下次请求时生效</span>}
+          <button className="reset-btn" onClick={handleClose}>关闭</button>
+          <button className="reset-btn primary" onClick={handleSave} disabled={!dirty || saving}>
+            {saving ? '保存中...' : '保存'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplatesPanel;
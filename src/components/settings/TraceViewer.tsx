@@ -0,0 +1,359 @@
+import React, { useEffect, useState } from 'react';
+import { X, History, Search, Download, Trash2, ChevronRight, ChevronDown, Loader2 } from 'lucide-react';
+import './TraceViewer.css';
+
+// 请求记录类型
+type TraceKind = 'build' | 'ask' | 'edit' | 'regenerate' | 'call';
+type TraceStatus = 'running' | 'success' | 'error' | 'cancelled';
+type CallStep = 'format' | 'questions' | 'final' | 'edit' | 'chat';
+
+interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  estimated?: boolean;
+}
+
+interface RetryInfo {
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+  reason: string;
+  step?: CallStep;
+}
+
+interface LLMCallTrace {
+  step?: CallStep;
+  provider: string;
+  model: string;
+  params: { temperature?: number; maxTokens?: number; topP?: number };
+  jsonMode?: boolean;
+  messages: { role: 'system' | 'user' | 'assistant'; content: string }[];
+  response?: string;
+  error?: string;
+  startedAt: string;
+  latencyMs: number;
+  retries: RetryInfo[];
+  usage?: TokenUsage;
+  cached?: boolean;
+}
+
+interface RequestTrace {
+  id: string;
+  kind: TraceKind;
+  status: TraceStatus;
+  prompt: string;
+  attachments: string[];
+  provider: string;
+  model: string;
+  startedAt: string;
+  elapsedMs?: number;
+  error?: string;
+  calls: LLMCallTrace[];
+}
+
+interface TraceSummary {
+  id: string;
+  kind: TraceKind;
+  status: TraceStatus;
+  prompt: string;
+  provider: string;
+  model: string;
+  startedAt: string;
+  elapsedMs?: number;
+  error?: string;
+  callCount: number;
+  retryCount: number;
+  cachedCount: number;
+  usage?: TokenUsage;
+}
+
+interface TraceViewerProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<TraceKind, string> = {
+  build: '生成文档',
+  ask: '问答',
+  edit: '编辑',
+  regenerate: '重新生成答案',
+  call: '单次调用',
+};
+
+const STATUS_LABELS: Record<TraceStatus, string> = {
+  running: '进行中',
+  success: '成功',
+  error: '失败',
+  cancelled: '已取消',
+};
+
+const STEP_LABELS: Record<CallStep, string> = {
+  format: '提取格式模版',
+  questions: '提取题目并解答',
+  final: '生成最终文档',
+  edit: '编辑建议',
+  chat: '对话',
+};
+
+// 输入搜索内容后延迟刷新列表
+const SEARCH_DEBOUNCE_MS = 300;
+
+const formatTime = (iso: string): string => new Date(iso).toLocaleString();
+
+const formatElapsed = (ms?: number): string => ms === undefined ? '-' : `${(ms / 1000).toFixed(1)} 秒`;
+
+const formatUsage = (usage?: TokenUsage): string =>
+  usage ? `输入 ${usage.inputTokens.toLocaleString()} / 输出 ${usage.outputTokens.toLocaleString()} tokens${usage.estimated ? '（估算）' : ''}` : '-';
+
+const formatParams = (params: LLMCallTrace['params']): string =>
+  [
+    params.temperature !== undefined && `temperature ${params.temperature}`,
+    params.maxTokens !== undefined && `maxTokens ${params.maxTokens}`,
+    params.topP !== undefined && `topP ${params.topP}`,
+  ].filter(Boolean).join('，') || '默认';
+
+// 单次模型调用：默认折叠，展开后显示消息和响应
+const CallItem: React.FC<{ call: LLMCallTrace; index: number }> = ({ call, index }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div className={`trace-call ${call.error ? 'error' : ''}`}>
+      <button className="trace-call-header" onClick={() => setExpanded(!expanded)}>
+        {expanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        <span className="trace-call-title">
+          #{index + 1} {call.step ? STEP_LABELS[call.step] : '模型调用'}
+        </span>
+        {call.cached && <span className="trace-badge">缓存</span>}
+        {call.retries.length > 0 && <span className="trace-badge warning">重试 {call.retries.length}</span>}
+        {call.error && <span className="trace-badge error">失败</span>}
+        <span className="trace-call-latency">{formatElapsed(call.latencyMs)}</span>
+      </button>
+
+      {expanded && (
+        <div className="trace-call-body">
+          <div className="trace-meta">
+            <span>模型</span><span>{call.model || call.provider}</span>
+            <span>参数</span><span>{formatParams(call.params)}{call.jsonMode && '，JSON 模式'}</span>
+            <span>开始时间</span><span>{formatTime(call.startedAt)}</span>
+            <span>用量</span><span>{formatUsage(call.usage)}</span>
+          </div>
+
+          {call.retries.length > 0 && (
+            <div className="trace-section">
+              <div className="trace-section-title">重试</div>
+              {call.retries.map(retry => (
+                <div key={retry.attempt} className="trace-retry">
+                  第 {retry.attempt}/{retry.maxRetries} 次，等待 {formatElapsed(retry.delayMs)}：{retry.reason}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {call.messages.map((message, messageIndex) => (
+            <div key={messageIndex} className="trace-section">
+              <div className="trace-section-title">{message.role}</div>
+              <pre className="trace-text">{message.content}</pre>
+            </div>
+          ))}
+
+          {call.response !== undefined && (
+            <div className="trace-section">
+              <div className="trace-section-title">response</div>
+              <pre className="trace-text">{call.response}</pre>
+            </div>
+          )}
+
+          {call.error && (
+            <div className="trace-section">
+              <div className="trace-section-title">error</div>
+              <pre className="trace-text error">{call.error}</pre>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const TraceViewer: React.FC<TraceViewerProps> = ({ visible, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [traces, setTraces] = useState<TraceSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selected, setSelected] = useState<RequestTrace | null>(null);
+  const [error, setError] = useState('');
+  const [status, setStatus] = useState('');
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // 打开或修改搜索内容时刷新列表
+  useEffect(() => {
+    if (!visible || !window.electronAPI?.listTraces) return;
+    setLoading(true);
+    const timer = setTimeout(() => {
+      window.electronAPI.listTraces(query).then(response => {
+        if (response.success && response.traces) {
+          setTraces(response.traces);
+          setError('');
+        } else {
+          setError(response.error || '读取请求记录失败');
+        }
+        setLoading(false);
+      });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [visible, query, reloadKey]);
+
+  // 读取选中记录的完整内容
+  useEffect(() => {
+    setSelected(null);
+    if (!selectedId || !window.electronAPI?.getTrace) return;
+    let cancelled = false;
+    window.electronAPI.getTrace(selectedId).then(response => {
+      if (cancelled) return;
+      if (response.success && response.trace) {
+        setSelected(response.trace);
+      } else {
+        setError(response.error || '读取请求记录失败');
+      }
+    });
+    return () => { cancelled = true; };
+  }, [selectedId]);
+
+  if (!visible) return null;
+
+  const handleExport = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    setStatus('');
+    setError('');
+    const response = await window.electronAPI.exportTraces(ids);
+    if (response.success) {
+      setStatus(`已导出到 ${response.path}`);
+    } else if (!response.canceled) {
+      setError(response.error || '导出失败');
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('确定删除所有请求记录吗？此操作无法撤销。')) return;
+    setError('');
+    const response = await window.electronAPI.clearTraces();
+    if (response.success) {
+      setSelectedId(null);
+      setStatus(`已删除 ${response.removed ?? 0} 条记录`);
+      setReloadKey(key => key + 1);
+    } else {
+      setError(response.error || '清空请求记录失败');
+    }
+  };
+
+  return (
+    <div className="format-settings-overlay" onClick={onClose}>
+      <div className="trace-viewer-panel" onClick={(e) => e.stopPropagation()}>
+        <div className="format-settings-header">
+          <History size={16} />
+          <span>请求记录</span>
+          <button className="close-btn" onClick={onClose} title="关闭">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="trace-viewer-body">
+          {/* 记录列表 */}
+          <div className="trace-list">
+            <div className="trace-search">
+              <Search size={12} />
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="搜索提示词、响应、模型或错误"
+              />
+            </div>
+            <div className="trace-list-items">
+              {traces.map(trace => (
+                <button
+                  key={trace.id}
+                  className={`trace-list-item ${trace.id === selectedId ? 'active' : ''}`}
+                  onClick={() => setSelectedId(trace.id)}
+                  title={trace.error || trace.prompt}
+                >
+                  <div className="trace-list-item-header">
+                    <span className="trace-kind">{KIND_LABELS[trace.kind]}</span>
+                    <span className={`trace-status ${trace.status}`}>{STATUS_LABELS[trace.status]}</span>
+                    <span className="trace-time">{formatTime(trace.startedAt)}</span>
+                  </div>
+                  <div className="trace-prompt">{trace.prompt || '（无提示词）'}</div>
+                  <div className="trace-list-item-meta">
+                    {trace.model || trace.provider} · {trace.callCount} 次调用
+                    {trace.retryCount > 0 && ` · 重试 ${trace.retryCount}`}
+                    {trace.cachedCount > 0 && ` · 缓存 ${trace.cachedCount}`}
+                    {` · ${formatElapsed(trace.elapsedMs)}`}
+                  </div>
+                </button>
+              ))}
+              {!loading && traces.length === 0 && (
+                <div className="trace-empty">{query.trim() ? '没有匹配的记录' : '暂无请求记录'}</div>
+              )}
+            </div>
+          </div>
+
+          {/* 记录详情 */}
+          <div className="trace-detail">
+            {selected ? (
+              <>
+                <div className="trace-detail-header">
+                  <span>{KIND_LABELS[selected.kind]} · {formatTime(selected.startedAt)}</span>
+                  <button className="trace-action" onClick={() => handleExport([selected.id])} title="导出这条记录">
+                    <Download size={12} />
+                    导出
+                  </button>
+                </div>
+                <div className="trace-meta">
+                  <span>状态</span><span className={`trace-status ${selected.status}`}>{STATUS_LABELS[selected.status]}</span>
+                  <span>模型</span><span>{selected.model || '默认'}（{selected.provider}）</span>
+                  <span>耗时</span><span>{formatElapsed(selected.elapsedMs)}</span>
+                  {selected.attachments.length > 0 && (
+                    <><span>附件</span><span>{selected.attachments.join('、')}</span></>
+                  )}
+                  {selected.error && (
+                    <><span>错误</span><span className="trace-error">{selected.error}</span></>
+                  )}
+                </div>
+                <div className="trace-section">
+                  <div className="trace-section-title">要求 / 问题</div>
+                  <pre className="trace-text">{selected.prompt || '（无）'}</pre>
+                </div>
+                <div className="trace-section-title">模型调用（{selected.calls.length}）</div>
+                {selected.calls.map((call, index) => (
+                  <CallItem key={`${selected.id}-${index}`} call={call} index={index} />
+                ))}
+              </>
+            ) : (
+              <div className="trace-empty">
+                {selectedId && !error ? <Loader2 size={16} className="spin" /> : '选择左侧的记录查看详情'}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="format-settings-footer trace-viewer-footer">
+          {error ? (
+            <span className="trace-footer-status error">{error}</span>
+          ) : (
+            <span className="trace-footer-status">{status || '记录保存在文档目录的 Work2Word_Debug 中，保留 30 天、最多 200 条'}</span>
+          )}
+          <button className="reset-btn" onClick={() => handleExport(traces.map(trace => trace.id))} disabled={traces.length === 0}>
+            <Download size={12} />
+            导出{query.trim() ? '搜索结果' : '全部'}
+          </button>
+          <button className="reset-btn" onClick={handleClear} disabled={traces.length === 0 && !query.trim()}>
+            <Trash2 size={12} />
+            清空记录
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TraceViewer;
@@ -1,14 +1,13 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, File, Loader2, MessageSquare, ChevronDown, X, Type, Edit3, Paperclip, Bot, Hammer } from 'lucide-react';
+import { Send, Square, File, FileText, Loader2, MessageSquare, ChevronDown, ChevronRight, Check, RefreshCw, X, Type, Edit3, Paperclip, Bot, Hammer, AlertTriangle } from 'lucide-react';
+import type { LLMConfigType, GenerationParams, GenerationStep, LLMDefaults } from '../../electron';
 import './Sidebar.css';
 
 type ModeType = 'build' | 'ask' | 'edit';
 
-interface LLMConfigType {
-  provider: 'qwen' | 'openai' | 'custom';
-  apiKey: string;
-  apiUrl: string;
-  model: string;
+interface ResponseCacheStats {
+  entries: number;
+  bytes: number;
 }
 
 interface Message {
@@ -18,18 +17,106 @@ interface Message {
   timestamp: Date;
 }
 
+// 单道题目的解答记录
+interface QuestionAnswer {
+  id: number;
+  question: string;
+  type?: string;
+  answer: string;
+  keyPoints?: string[];
+  chunkIndex?: number;
+  model?: string;          // 生成答案使用的模型
+  error?: string;          // 解答失败的原因
+}
+
+// Build 模式的处理步骤
+interface PipelineStep {
+  step: 'format' | 'questions' | 'final';
+  status: 'running' | 'done';
+  startedAt: number;       // 开始时间（毫秒时间戳）
+  elapsedMs?: number;      // 完成后的耗时
+  content?: string;        // 步骤结果
+  chunkCount?: number;     // 分块处理时的分块数
+  questions?: QuestionAnswer[];   // 步骤2 每道题的解答记录
+  retries?: number;        // 请求重试次数
+  usage?: TokenUsage;      // 本步骤的实际用量
+  cacheHits?: number;      // 使用缓存响应的请求数
+}
+
+// Token 用量
+interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  estimated?: boolean;     // 提供商没有返回用量时为估算值
+}
+
+interface UsageCost {
+  amount: number;
+  currency: 'CNY' | 'USD';
+}
+
+// 发送前的用量估算
+interface HomeworkEstimate {
+  model: string;
+  steps: { step: PipelineStep['step']; requests: number; inputTokens: number; outputTokens: number; maxRequestTokens: number }[];
+  inputTokens: number;
+  outputTokens: number;
+  cost?: UsageCost;        // 模型价格未知时为空
+  contextWindow?: number;  // 模型上下文长度，未知时为空
+  exceedsContext: boolean;
+  approximate: boolean;    // 模型的分词器未公开时为粗略估算
+  questionCount: number;
+  chunkCount: number;
+}
+
+interface PageRange {
+  start: number;
+  end: number;
+}
+
+interface PageInfo {
+  pageNumber: number;
+  charCount: number;
+  hasText: boolean;
+  ocrConfidence?: number;  // 通过 OCR 识别时的置信度 0-100
+}
+
+interface Attachment {
+  id: string;
+  name: string;
+  type: string;        // 文件扩展名（不含点）
+  size: number;        // 文件大小（字节）
+  pages: PageInfo[];
+  pageRange: PageRange | null;
+  encoding?: string;   // 文本文件的编码
+}
+
 interface SidebarProps {
   // 文件上传
-  filePath: string;
+  attachments: Attachment[];
   onFileSelect: () => void;
-  onFileRemove: () => void;
+  onFileRemove: (id: string) => void;
   fileLoading: boolean;
+  // 分页文档（PDF）的页码选择
+  onPageRangeChange?: (id: string, range: PageRange | null) => void;
+  // 文本文件的编码切换
+  onEncodingChange?: (id: string, encoding: string) => void;
 
   // 对话
   prompt: string;
   onPromptChange: (value: string) => void;
   onSendMessage: () => void;
+  onStopGeneration?: () => void;   // 停止进行中的生成
+  onResume?: () => void;           // 从失败的步骤继续（Build 模式）
+  includeDocument?: boolean;       // Ask 模式是否附带编辑器中的文档
+  onIncludeDocumentChange?: (value: boolean) => void;
+  onRegenerateAnswer?: (questionId: number, model?: string) => void;   // 重新生成单道题目的答案
+  regeneratingQuestion?: number | null;
+  onRebuildDocument?: () => void;  // 答案更新后只重新生成最终文档
+  onRegenerateWithoutCache?: () => void;   // 忽略缓存的响应重新生成（Build 模式）
   messages: Message[];
+  steps?: PipelineStep[];           // Build 模式的步骤时间线
+  estimate?: HomeworkEstimate | null;   // Build 模式发送前的用量估算
 
   // LLM 配置
   llmConfig: LLMConfigType;
@@ -50,15 +137,549 @@ interface SidebarProps {
   hasContent: boolean;
 }
 
+// 页码范围选择器
+const PagePicker: React.FC<{
+  pages: PageInfo[];
+  range: PageRange | null;
+  disabled: boolean;
+  onChange: (range: PageRange | null) => void;
+}> = ({ pages, range, disabled, onChange }) => {
+  const pageCount = pages.length;
+  const [start, setStart] = useState(String(range?.start ?? 1));
+  const [end, setEnd] = useState(String(range?.end ?? pageCount));
+
+  useEffect(() => {
+    setStart(String(range?.start ?? 1));
+    setEnd(String(range?.end ?? pageCount));
+  }, [range, pageCount]);
+
+  const commit = () => {
+    const newStart = Math.min(Math.max(1, parseInt(start, 10) || 1), pageCount);
+    const newEnd = Math.min(Math.max(newStart, parseInt(end, 10) || pageCount), pageCount);
+    const isFullRange = newStart === 1 && newEnd === pageCount;
+    const currentStart = range?.start ?? 1;
+    const currentEnd = range?.end ?? pageCount;
+
+    setStart(String(newStart));
+    setEnd(String(newEnd));
+    if (newStart !== currentStart || newEnd !== currentEnd) {
+      onChange(isFullRange ? null : { start: newStart, end: newEnd });
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.currentTarget.blur();
+    }
+  };
+
+  const emptyPages = pages.filter(page => !page.hasText).map(page => page.pageNumber);
+  const title = emptyPages.length > 0
+    ? `选择要发送的页码范围（第 ${emptyPages.join('、')} 页无文本）`
+    : '选择要发送的页码范围';
+
+  return (
+    <div className="page-picker" title={title}>
+      <input
+        type="number"
+        className="page-picker-input"
+        min={1}
+        max={pageCount}
+        value={start}
+        onChange={(e) => setStart(e.target.value)}
+        onBlur={commit}
+        onKeyDown={handleKeyDown}
+        disabled={disabled}
+      />
+      <span>-</span>
+      <input
+        type="number"
+        className="page-picker-input"
+        min={1}
+        max={pageCount}
+        value={end}
+        onChange={(e) => setEnd(e.target.value)}
+        onBlur={commit}
+        onKeyDown={handleKeyDown}
+        disabled={disabled}
+      />
+      <span className="page-picker-total">/ {pageCount} 页</span>
+    </div>
+  );
+};
+
+// 文本文件可选的编码
+const TEXT_ENCODINGS = [
+  { value: 'UTF-8', label: 'UTF-8' },
+  { value: 'GB18030', label: 'GBK / GB18030' },
+  { value: 'Big5', label: 'Big5（繁体）' },
+  { value: 'UTF-16LE', label: 'UTF-16 LE' },
+  { value: 'UTF-16BE', label: 'UTF-16 BE' },
+  { value: 'Shift_JIS', label: 'Shift_JIS（日文）' },
+  { value: 'EUC-KR', label: 'EUC-KR（韩文）' },
+  { value: 'windows-1252', label: 'Windows-1252（西欧）' },
+];
+
+// 格式化文件大小
+const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+// OCR 置信度标记：显示 OCR 识别页面的平均置信度，悬停查看每页详情
+const OcrBadge: React.FC<{ pages: PageInfo[] }> = ({ pages }) => {
+  const ocrPages = pages.filter(page => page.ocrConfidence !== undefined);
+  if (ocrPages.length === 0) return null;
+
+  const average = Math.round(
+    ocrPages.reduce((sum, page) => sum + (page.ocrConfidence ?? 0), 0) / ocrPages.length
+  );
+  const level = average >= 80 ? 'high' : average >= 60 ? 'medium' : 'low';
+  const title = ocrPages.length === 1 && pages.length === 1
+    ? `OCR 识别置信度 ${average}%`
+    : `以下页面通过 OCR 识别：\n${ocrPages.map(page => `第 ${page.pageNumber} 页：${page.ocrConfidence}%`).join('\n')}`;
+
+  return (
+    <span className={`ocr-badge ocr-badge-${level}`} title={title}>
+      OCR {average}%
+    </span>
+  );
+};
+
+const STEP_LABELS: Record<PipelineStep['step'], string> = {
+  format: '提取格式模版',
+  questions: '提取题目并解答',
+  final: '生成最终文档',
+};
+
+const PROVIDER_LABELS: Record<LLMConfigType['provider'], string> = {
+  qwen: '通义千问',
+  openai: 'OpenAI',
+  local: '本地模型',
+  custom: '自定义',
+};
+
+// 兼容 OpenAI 协议的常用服务预设（自定义 API 的 OpenAI 兼容模式）
+const CUSTOM_PRESETS = [
+  { name: 'DeepSeek', baseUrl: 'https://api.deepseek.com/v1', model: 'deepseek-chat' },
+  { name: 'Moonshot', baseUrl: 'https://api.moonshot.cn/v1', model: 'moonshot-v1-8k' },
+  { name: '智谱', baseUrl: 'https://open.bigmodel.cn/api/paas/v4', model: 'glm-4-flash' },
+  { name: 'SiliconFlow', baseUrl: 'https://api.siliconflow.cn/v1', model: 'Qwen/Qwen2.5-7B-Instruct' },
+  { name: 'vLLM', baseUrl: 'http://localhost:8000/v1', model: '' },
+];
+
+const GENERATION_SCOPES: { value: 'all' | GenerationStep; label: string; title: string }[] = [
+  { value: 'all', label: '通用', title: '所有步骤通用的参数' },
+  { value: 'format', label: '格式', title: '提取格式模版' },
+  { value: 'questions', label: '解答', title: '提取题目并解答' },
+  { value: 'final', label: '文档', title: '生成最终文档' },
+  { value: 'edit', label: '编辑', title: 'Edit 模式修改建议' },
+  { value: 'chat', label: '问答', title: 'Ask 模式对话' },
+];
+
+const GENERATION_FIELDS: { key: keyof GenerationParams; label: string; min: number; max?: number; step: number }[] = [
+  { key: 'temperature', label: '温度', min: 0, max: 2, step: 0.1 },
+  { key: 'maxTokens', label: '最大 Tokens', min: 1, step: 256 },
+  { key: 'topP', label: 'Top P', min: 0, max: 1, step: 0.05 },
+];
+
+// 生成参数设置：通用参数对所有步骤生效，步骤参数只覆盖已填写的项，留空表示沿用上一级
+const GenerationSettings: React.FC<{
+  config: LLMConfigType;
+  defaults: GenerationParams;   // 主进程的默认生成参数
+  onChange: (updates: Partial<LLMConfigType>) => void;
+}> = ({ config, defaults, onChange }) => {
+  const [scope, setScope] = useState<'all' | GenerationStep>('all');
+
+  const current: GenerationParams = (scope === 'all' ? config.generation : config.stepGeneration?.[scope]) || {};
+  const inherited: GenerationParams = scope === 'all'
+    ? defaults
+    : { ...defaults, ...config.generation };
+
+  const update = (params: GenerationParams) => {
+    if (scope === 'all') {
+      onChange({ generation: params });
+    } else {
+      onChange({ stepGeneration: { ...config.stepGeneration, [scope]: params } });
+    }
+  };
+
+  const handleChange = (key: keyof GenerationParams, value: string) => {
+    const parsed = parseFloat(value);
+    const params = { ...current };
+    if (value === '' || isNaN(parsed)) {
+      delete params[key];
+    } else {
+      params[key] = key === 'maxTokens' ? Math.round(parsed) : parsed;
+    }
+    update(params);
+  };
+
+  const hasOverrides = Object.keys(current).length > 0;
+
+  return (
+    <div className="generation-settings">
+      <div className="dropdown-options">
+        {GENERATION_SCOPES.map(item => (
+          <button
+            key={item.value}
+            className={`dropdown-option ${scope === item.value ? 'active' : ''}`}
+            onClick={() => setScope(item.value)}
+            title={item.title}
+          >
+            {item.label}
+          </button>
+        ))}
+      </div>
+      <div className="generation-fields">
+        {GENERATION_FIELDS.map(field => (
+          <label key={field.key} className="generation-field">
+            <span>{field.label}</span>
+            <input
+              type="number"
+              className="dropdown-input"
+              min={field.min}
+              max={field.max}
+              step={field.step}
+              value={current[field.key] ?? ''}
+              onChange={(e) => handleChange(field.key, e.target.value)}
+              placeholder={inherited[field.key] !== undefined ? String(inherited[field.key]) : '默认'}
+            />
+          </label>
+        ))}
+      </div>
+      {hasOverrides && (
+        <button className="generation-reset" onClick={() => update({})}>
+          {scope === 'all' ? '恢复默认' : '清除此步骤的设置'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+const formatBytes = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+// 响应缓存设置：相同的请求直接使用保存的响应，留空的项使用默认值
+const CacheSettings: React.FC<{
+  config: LLMConfigType;
+  defaults: LLMDefaults['cache'];   // 主进程的默认缓存设置
+  onChange: (updates: Partial<LLMConfigType>) => void;
+}> = ({ config, defaults, onChange }) => {
+  const [stats, setStats] = useState<ResponseCacheStats | null>(null);
+  const [clearing, setClearing] = useState(false);
+  const [error, setError] = useState('');
+  const settings = config.cache || {};
+  const enabled = settings.enabled ?? defaults.enabled;
+
+  useEffect(() => {
+    if (!window.electronAPI?.getResponseCacheStats) return;
+    window.electronAPI.getResponseCacheStats().then(response => {
+      if (response.success && response.stats) {
+        setStats(response.stats);
+      } else {
+        setError(response.error || '读取缓存失败');
+      }
+    });
+  }, []);
+
+  const handleNumberChange = (key: 'ttlHours' | 'maxSizeMB', value: string) => {
+    const parsed = parseFloat(value);
+    const next = { ...settings };
+    if (value === '' || isNaN(parsed) || parsed <= 0) {
+      delete next[key];
+    } else {
+      next[key] = parsed;
+    }
+    onChange({ cache: next });
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('确定清空所有缓存的模型响应吗？')) return;
+    setClearing(true);
+    setError('');
+    try {
+      const response = await window.electronAPI.clearResponseCache();
+      if (response.success) {
+        setStats({ entries: 0, bytes: 0 });
+      } else {
+        setError(response.error || '清空缓存失败');
+      }
+    } finally {
+      setClearing(false);
+    }
+  };
+
+  return (
+    <div className="generation-settings">
+      <label className="cache-toggle">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onChange({ cache: { ...settings, enabled: e.target.checked } })}
+        />
+        Build 的格式提取和题目解答中相同的请求直接使用缓存的响应
+      </label>
+      <div className="generation-fields cache-fields">
+        <label className="generation-field">
+          <span>有效期（小时）</span>
+          <input
+            type="number"
+            className="dropdown-input"
+            min={1}
+            step={1}
+            value={settings.ttlHours ?? ''}
+            onChange={(e) => handleNumberChange('ttlHours', e.target.value)}
+            placeholder={String(defaults.ttlHours)}
+            disabled={!enabled}
+          />
+        </label>
+        <label className="generation-field">
+          <span>容量上限（MB）</span>
+          <input
+            type="number"
+            className="dropdown-input"
+            min={1}
+            step={10}
+            value={settings.maxSizeMB ?? ''}
+            onChange={(e) => handleNumberChange('maxSizeMB', e.target.value)}
+            placeholder={String(defaults.maxSizeMB)}
+            disabled={!enabled}
+          />
+        </label>
+      </div>
+      <div className="cache-stats">
+        {stats && <span>已缓存 {stats.entries} 条，共 {formatBytes(stats.bytes)}</span>}
+        <button className="generation-reset" onClick={handleClear} disabled={clearing || !stats?.entries}>
+          {clearing ? '正在清空...' : '清空缓存'}
+        </button>
+      </div>
+      {error && <div className="dropdown-error">{error}</div>}
+    </div>
+  );
+};
+
+const formatElapsed = (ms: number): string => `${(ms / 1000).toFixed(1)} 秒`;
+
+// Token 数：超过一万时以 k 为单位
+const formatTokens = (count: number): string =>
+  count >= 10000 ? `${(count / 1000).toFixed(1)}k` : count.toLocaleString();
+
+const formatCost = (cost: UsageCost): string => {
+  if (cost.amount === 0) return '免费';
+  const symbol = cost.currency === 'CNY' ? '¥' : '$';
+  return `${symbol}${cost.amount < 0.01 ? cost.amount.toFixed(4) : cost.amount.toFixed(2)}`;
+};
+
+// 用量估算的详细说明（鼠标悬停显示）
+const describeEstimate = (estimate: HomeworkEstimate): string => {
+  const maxRequestTokens = Math.max(...estimate.steps.map(step => step.maxRequestTokens));
+  const lines = [
+    estimate.approximate
+      ? 'token 数为粗略估算：该模型的分词器未公开，按字符类别和经验比例计算，可能与实际用量相差较大'
+      : '输入 token 数按模型的分词器计算，输出按经验值估算',
+    `模型：${estimate.model || '未指定'}`,
+    ...estimate.steps.map(step =>
+      `${STEP_LABELS[step.step]}：${step.requests} 次请求，输入约 ${step.inputTokens.toLocaleString()}，输出约 ${step.outputTokens.toLocaleString()} tokens`),
+  ];
+  if (estimate.questionCount > 0) {
+    lines.push(`预计 ${estimate.questionCount} 道题（按题号估算）${estimate.chunkCount > 1 ? `，附件分 ${estimate.chunkCount} 块处理` : ''}`);
+  }
+  lines.push(estimate.contextWindow
+    ? `单次请求最多约 ${maxRequestTokens.toLocaleString()} tokens，上下文长度 ${estimate.contextWindow.toLocaleString()}${estimate.exceedsContext ? '，已超出' : ''}`
+    : '模型上下文长度未知，无法检查是否超出');
+  lines.push(estimate.cost ? '费用按参考价格估算，以实际账单为准' : '模型价格未知，无法估算费用');
+  return lines.join('\n');
+};
+
+// 步骤结果是 JSON 时格式化显示
+const formatStepContent = (content: string): string => {
+  const match = content.match(/```json\s*([\s\S]*?)\s*```/);
+  try {
+    return JSON.stringify(JSON.parse(match ? match[1] : content), null, 2);
+  } catch {
+    return content;
+  }
+};
+
+// 逐题解答列表：每道题可单独重新生成，可填写其他模型
+const QuestionAnswerList: React.FC<{
+  questions: QuestionAnswer[];
+  defaultModel: string;
+  modelOptions: string[];
+  regeneratingId: number | null;
+  disabled: boolean;
+  onRegenerate: (questionId: number, model?: string) => void;
+}> = ({ questions, defaultModel, modelOptions, regeneratingId, disabled, onRegenerate }) => {
+  const [models, setModels] = useState<Record<number, string>>({});
+
+  return (
+    <div className="question-list">
+      {questions.map(question => (
+        <div key={question.id} className="question-item">
+          <div className="question-header">
+            <span className="question-title" title={question.question}>
+              第 {question.id} 题 · {question.question}
+            </span>
+            {question.error && <span className="question-failed">解答失败</span>}
+            {question.model && <span className="question-model">{question.model}</span>}
+          </div>
+          {question.error
+            ? <div className="question-answer error">{question.error}</div>
+            : <div className="question-answer">{question.answer}</div>}
+          <div className="question-actions">
+            <input
+              type="text"
+              className="dropdown-input question-model-input"
+              list="question-model-options"
+              value={models[question.id] ?? ''}
+              onChange={(e) => setModels(prev => ({ ...prev, [question.id]: e.target.value }))}
+              placeholder={defaultModel || '默认模型'}
+              title="留空使用当前模型"
+            />
+            <button
+              className="question-regenerate-btn"
+              onClick={() => onRegenerate(question.id, models[question.id]?.trim() || undefined)}
+              disabled={disabled || regeneratingId !== null}
+              title="只重新生成这道题的答案"
+            >
+              {regeneratingId === question.id ? <Loader2 size={12} className="spin" /> : <RefreshCw size={12} />}
+              重新生成
+            </button>
+          </div>
+        </div>
+      ))}
+      {modelOptions.length > 0 && (
+        <datalist id="question-model-options">
+          {modelOptions.map(model => <option key={model} value={model} />)}
+        </datalist>
+      )}
+    </div>
+  );
+};
+
+interface StepTimelineProps {
+  steps: PipelineStep[];
+  defaultModel: string;
+  modelOptions: string[];
+  loading: boolean;
+  onRegenerateAnswer?: (questionId: number, model?: string) => void;
+  regeneratingQuestion?: number | null;
+  onRebuildDocument?: () => void;
+  onRegenerateWithoutCache?: () => void;
+}
+
+// 步骤时间线：显示每个步骤的状态和耗时，展开可查看中间结果
+const StepTimeline: React.FC<StepTimelineProps> = ({
+  steps,
+  defaultModel,
+  modelOptions,
+  loading,
+  onRegenerateAnswer,
+  regeneratingQuestion = null,
+  onRebuildDocument,
+  onRegenerateWithoutCache
+}) => {
+  const [expanded, setExpanded] = useState<PipelineStep['step'] | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const running = steps.some(step => step.status === 'running');
+
+  // 有步骤进行中时每秒刷新耗时
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [running]);
+
+  return (
+    <div className="step-timeline">
+      {steps.map(step => {
+        const isDone = step.status === 'done';
+        const isExpanded = expanded === step.step && isDone;
+        const elapsed = isDone ? step.elapsedMs ?? 0 : Math.max(0, now - step.startedAt);
+        return (
+          <div key={step.step} className={`step-item ${step.status}`}>
+            <button
+              className="step-header"
+              onClick={() => setExpanded(isExpanded ? null : step.step)}
+              disabled={!isDone || !step.content}
+              title={isDone ? (isExpanded ? '收起结果' : '查看结果') : undefined}
+            >
+              {isDone ? <Check size={14} className="step-icon" /> : <Loader2 size={14} className="spin step-icon" />}
+              <span className="step-label">{STEP_LABELS[step.step]}</span>
+              {step.chunkCount !== undefined && step.chunkCount > 1 && (
+                <span className="step-chunks">{step.chunkCount} 块</span>
+              )}
+              {!!step.cacheHits && (
+                <span className="step-chunks" title="使用缓存响应的请求数">缓存 {step.cacheHits}</span>
+              )}
+              {!!step.retries && (
+                <span className="step-retries" title="请求失败后自动重试的次数">重试 {step.retries} 次</span>
+              )}
+              {step.usage && (
+                <span
+                  className="step-usage"
+                  title={`输入 ${step.usage.inputTokens.toLocaleString()} / 输出 ${step.usage.outputTokens.toLocaleString()} tokens${step.usage.estimated ? '（部分为估算值）' : ''}`}
+                >
+                  {step.usage.estimated && '≈'}{formatTokens(step.usage.inputTokens + step.usage.outputTokens)} tokens
+                </span>
+              )}
+              <span className="step-elapsed">{formatElapsed(elapsed)}</span>
+              {isDone && step.content && (isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />)}
+            </button>
+            {isExpanded && step.content && (step.questions && onRegenerateAnswer ? (
+              <QuestionAnswerList
+                questions={step.questions}
+                defaultModel={defaultModel}
+                modelOptions={modelOptions}
+                regeneratingId={regeneratingQuestion}
+                disabled={loading}
+                onRegenerate={onRegenerateAnswer}
+              />
+            ) : (
+              <pre className="step-content">{formatStepContent(step.content)}</pre>
+            ))}
+          </div>
+        );
+      })}
+      {onRebuildDocument && (
+        <button className="step-rebuild-btn" onClick={onRebuildDocument} disabled={loading}>
+          <RefreshCw size={12} />
+          用更新后的答案重新生成文档
+        </button>
+      )}
+      {onRegenerateWithoutCache && (
+        <button className="step-rebuild-btn" onClick={onRegenerateWithoutCache} disabled={loading}>
+          <RefreshCw size={12} />
+          忽略缓存重新生成
+        </button>
+      )}
+    </div>
+  );
+};
+
 const Sidebar: React.FC<SidebarProps> = ({
-  filePath,
+  attachments,
   onFileSelect,
   onFileRemove,
   fileLoading,
+  onPageRangeChange,
+  onEncodingChange,
   prompt,
   onPromptChange,
   onSendMessage,
+  onStopGeneration,
+  onResume,
+  includeDocument = false,
+  onIncludeDocumentChange,
+  onRegenerateAnswer,
+  regeneratingQuestion,
+  onRebuildDocument,
+  onRegenerateWithoutCache,
   messages,
+  steps = [],
+  estimate,
   llmConfig,
   onConfigChange,
   onOpenFormatSettings,
@@ -75,9 +696,25 @@ const Sidebar: React.FC<SidebarProps> = ({
   const messagesContainerRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const modelSelectorRef = useRef<HTMLDivElement>(null);
+  const [generationOpen, setGenerationOpen] = useState(false);
+  const [cacheOpen, setCacheOpen] = useState(false);
+  const [localModels, setLocalModels] = useState<string[]>([]);
+  const [localModelsLoading, setLocalModelsLoading] = useState(false);
+  const [localModelsError, setLocalModelsError] = useState('');
   const modeSelectorRef = useRef<HTMLDivElement>(null);
+  // 支持附加的文件扩展名（由主进程的提取器注册表提供）
+  const [supportedExtensions, setSupportedExtensions] = useState<string[]>([]);
+  // 生成参数、响应缓存和本地模型服务地址的默认值（由主进程提供）
+  const [llmDefaults, setLLMDefaults] = useState<LLMDefaults | null>(null);
 
-  const fileName = filePath ? filePath.split('/').pop() || filePath.split('\\').pop() : '';
+  useEffect(() => {
+    window.electronAPI?.getFileFormats?.()
+      .then(formats => setSupportedExtensions(formats.flatMap(format => format.extensions)))
+      .catch(err => console.error('获取支持的文件格式失败:', err));
+    window.electronAPI?.getLLMDefaults?.()
+      .then(setLLMDefaults)
+      .catch(err => console.error('获取默认设置失败:', err));
+  }, []);
 
   // 点击外部关闭下拉菜单
   useEffect(() => {
@@ -101,7 +738,7 @@ const Sidebar: React.FC<SidebarProps> = ({
     if (messagesContainerRef.current) {
       messagesContainerRef.current.scrollTop = messagesContainerRef.current.scrollHeight;
     }
-  }, [messages]);
+  }, [messages, steps]);
 
   // 点击外部关闭模型选择器
   useEffect(() => {
@@ -134,9 +771,51 @@ const Sidebar: React.FC<SidebarProps> = ({
   const getModelDisplayName = () => {
     if (llmConfig.provider === 'qwen') return `通义 · ${llmConfig.model}`;
     if (llmConfig.provider === 'openai') return `OpenAI · ${llmConfig.model}`;
+    if (llmConfig.provider === 'local') return `本地 · ${llmConfig.model || '未选择模型'}`;
     return llmConfig.model || '自定义模型';
   };
 
+  // 从本地模型服务获取模型列表，当前模型不在列表中时自动选择第一个
+  const refreshLocalModels = async (config: LLMConfigType = llmConfig) => {
+    if (!window.electronAPI) return;
+    setLocalModelsLoading(true);
+    setLocalModelsError('');
+    try {
+      const response = await window.electronAPI.listLocalModels(config.apiUrl, config.apiKey);
+      if (response.success && response.models) {
+        setLocalModels(response.models);
+        if (response.models.length === 0) {
+          setLocalModelsError('服务上没有可用模型');
+        } else if (!response.models.includes(config.model)) {
+          onConfigChange({ ...config, model: response.models[0] });
+        }
+      } else {
+        setLocalModels([]);
+        setLocalModelsError(response.error || '获取模型列表失败');
+      }
+    } finally {
+      setLocalModelsLoading(false);
+    }
+  };
+
+  // 打开模型选择器时自动发现本地模型
+  useEffect(() => {
+    if (modelSelectorOpen && llmConfig.provider === 'local') {
+      refreshLocalModels();
+    }
+  }, [modelSelectorOpen, llmConfig.provider]);
+
+  const selectProvider = (provider: LLMConfigType['provider']) => {
+    if (provider === llmConfig.provider) return;
+    updateConfig({
+      provider,
+      model: provider === 'qwen' ? 'qwen-turbo' : provider === 'openai' ? 'gpt-3.5-turbo' : provider === 'local' ? '' : llmConfig.model,
+      apiUrl: provider === 'local' ? llmDefaults?.localUrl ?? '' : llmConfig.provider === 'local' ? '' : llmConfig.apiUrl,
+      // 新选择的自定义 API 默认使用 OpenAI 兼容模式，已保存的旧配置保持原始模式
+      customMode: provider === 'custom' ? llmConfig.customMode ?? 'openai' : llmConfig.customMode,
+    });
+  };
+
   return (
     <div className="sidebar">
       {/* 标题栏 */}
@@ -170,6 +849,18 @@ const Sidebar: React.FC<SidebarProps> = ({
               </div>
             ))
           )}
+          {steps.length > 0 && (
+            <StepTimeline
+              steps={steps}
+              defaultModel={llmConfig.model}
+              modelOptions={llmConfig.provider === 'local' ? localModels : []}
+              loading={loading}
+              onRegenerateAnswer={onRegenerateAnswer}
+              regeneratingQuestion={regeneratingQuestion}
+              onRebuildDocument={onRebuildDocument}
+              onRegenerateWithoutCache={onRegenerateWithoutCache}
+            />
+          )}
           {processingStep && (
             <div className="message assistant processing">
               <Loader2 size={14} className="spin" />
@@ -183,6 +874,11 @@ const Sidebar: React.FC<SidebarProps> = ({
           <div className="status-message error">
             <X size={14} />
             <span>{error}</span>
+            {onResume && !loading && (
+              <button className="resume-btn" onClick={onResume} title="复用已完成步骤的结果，从失败的步骤继续">
+                从失败步骤继续
+              </button>
+            )}
           </div>
         )}
         {success && (
@@ -195,20 +891,55 @@ const Sidebar: React.FC<SidebarProps> = ({
       {/* VSCode 风格的统一输入区域 */}
       <div className={`unified-input-container ${mode === 'build' ? 'build-mode' : ''} ${mode === 'ask' ? 'ask-mode' : ''} ${mode === 'edit' ? 'edit-mode' : ''}`}>
         {/* 附件预览 */}
-        {filePath && (
-          <div className="attached-file">
-            <File size={14} />
-            <span className="attached-file-name" title={fileName}>{fileName}</span>
-            {fileLoading ? (
-              <Loader2 size={14} className="spin" />
-            ) : (
-              <button 
-                className="remove-attached-btn"
-                onClick={onFileRemove}
-                title="移除文件"
-              >
-                <X size={12} />
-              </button>
+        {(attachments.length > 0 || fileLoading) && (
+          <div className="attached-files">
+            {attachments.map(attachment => (
+              <div key={attachment.id} className="attached-file">
+                <File size={14} />
+                <span className="attached-file-name" title={attachment.name}>{attachment.name}</span>
+                <span className="attached-file-meta">
+                  {attachment.type.toUpperCase()} · {formatFileSize(attachment.size)}
+                </span>
+                <OcrBadge pages={attachment.pages} />
+                {attachment.encoding && onEncodingChange && (
+                  <select
+                    className="encoding-select"
+                    value={attachment.encoding}
+                    onChange={(e) => onEncodingChange(attachment.id, e.target.value)}
+                    disabled={loading || fileLoading}
+                    title="文本编码（乱码时可手动切换）"
+                  >
+                    {!TEXT_ENCODINGS.some(item => item.value === attachment.encoding) && (
+                      <option value={attachment.encoding}>{attachment.encoding}</option>
+                    )}
+                    {TEXT_ENCODINGS.map(item => (
+                      <option key={item.value} value={item.value}>{item.label}</option>
+                    ))}
+                  </select>
+                )}
+                {attachment.pages.length > 1 && onPageRangeChange && (
+                  <PagePicker
+                    pages={attachment.pages}
+                    range={attachment.pageRange}
+                    disabled={loading || fileLoading}
+                    onChange={(range) => onPageRangeChange(attachment.id, range)}
+                  />
+                )}
+                <button 
+                  className="remove-attached-btn"
+                  onClick={() => onFileRemove(attachment.id)}
+                  disabled={loading || fileLoading}
+                  title="移除文件"
+                >
+                  <X size={12} />
+                </button>
+              </div>
+            ))}
+            {fileLoading && (
+              <div className="attached-file attached-file-loading">
+                <Loader2 size={14} className="spin" />
+                <span className="attached-file-name">正在处理文件...</span>
+              </div>
             )}
           </div>
         )}
@@ -239,7 +970,9 @@ const Sidebar: React.FC<SidebarProps> = ({
               className="toolbar-btn"
               onClick={onFileSelect}
               disabled={loading || fileLoading}
-              title="附加文件 (DOC, DOCX, PDF, TXT)"
+              title={supportedExtensions.length > 0
+                ? `附加文件 (${supportedExtensions.map(ext => ext.toUpperCase()).join(', ')})`
+                : '附加文件'}
             >
               <Paperclip size={16} />
             </button>
@@ -262,31 +995,132 @@ const Sidebar: React.FC<SidebarProps> = ({
                   <div className="dropdown-section">
                     <div className="dropdown-label">提供商</div>
                     <div className="dropdown-options">
-                      {(['qwen', 'openai', 'custom'] as const).map(provider => (
+                      {(['qwen', 'openai', 'local', 'custom'] as const).map(provider => (
                         <button
                           key={provider}
                           className={`dropdown-option ${llmConfig.provider === provider ? 'active' : ''}`}
-                          onClick={() => {
-                            updateConfig({
-                              provider,
-                              model: provider === 'qwen' ? 'qwen-turbo' : provider === 'openai' ? 'gpt-3.5-turbo' : llmConfig.model,
-                            });
-                          }}
+                          onClick={() => selectProvider(provider)}
                         >
-                          {provider === 'qwen' ? '通义千问' : provider === 'openai' ? 'OpenAI' : '自定义'}
+                          {PROVIDER_LABELS[provider]}
                         </button>
                       ))}
                     </div>
                   </div>
+                  {llmConfig.provider === 'custom' && (
+                    <>
+                      <div className="dropdown-section">
+                        <div className="dropdown-label">接口格式</div>
+                        <div className="dropdown-options">
+                          <button
+                            className={`dropdown-option ${llmConfig.customMode === 'openai' ? 'active' : ''}`}
+                            onClick={() => updateConfig({ customMode: 'openai' })}
+                            title="发送 messages 到 {Base URL}/chat/completions"
+                          >
+                            OpenAI 兼容
+                          </button>
+                          <button
+                            className={`dropdown-option ${llmConfig.customMode !== 'openai' ? 'active' : ''}`}
+                            onClick={() => updateConfig({ customMode: 'raw' })}
+                            title="发送 { prompt, model }，兼容旧版自定义接口"
+                          >
+                            原始
+                          </button>
+                        </div>
+                      </div>
+                      {llmConfig.customMode === 'openai' && (
+                        <div className="dropdown-section">
+                          <div className="dropdown-label">预设</div>
+                          <div className="dropdown-options">
+                            {CUSTOM_PRESETS.map(preset => (
+                              <button
+                                key={preset.name}
+                                className={`dropdown-option ${llmConfig.apiUrl === preset.baseUrl ? 'active' : ''}`}
+                                onClick={() => updateConfig({ apiUrl: preset.baseUrl, model: preset.model })}
+                              >
+                                {preset.name}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                      <div className="dropdown-section">
+                        <div className="dropdown-label">{llmConfig.customMode === 'openai' ? 'Base URL' : 'API URL'}</div>
+                        <input
+                          type="text"
+                          className="dropdown-input"
+                          value={llmConfig.apiUrl}
+                          onChange={(e) => updateConfig({ apiUrl: e.target.value })}
+                          placeholder={llmConfig.customMode === 'openai' ? 'https://api.example.com/v1' : 'API 地址'}
+                        />
+                      </div>
+                    </>
+                  )}
+                  {llmConfig.provider === 'local' && (
+                    <div className="dropdown-section">
+                      <div className="dropdown-label">服务地址</div>
+                      <input
+                        type="text"
+                        className="dropdown-input"
+                        value={llmConfig.apiUrl}
+                        onChange={(e) => updateConfig({ apiUrl: e.target.value })}
+                        onBlur={() => refreshLocalModels()}
+                        placeholder={llmDefaults?.localUrl}
+                        title="Ollama 默认 http://localhost:11434，llama.cpp 默认 http://localhost:8080"
+                      />
+                    </div>
+                  )}
                   <div className="dropdown-section">
                     <div className="dropdown-label">模型</div>
-                    <input
-                      type="text"
-                      className="dropdown-input"
-                      value={llmConfig.model}
-                      onChange={(e) => updateConfig({ model: e.target.value })}
-                      placeholder="模型名称"
-                    />
+                    {llmConfig.provider === 'local' ? (
+                      <div className="dropdown-row">
+                        <select
+                          className="dropdown-input"
+                          value={llmConfig.model}
+                          onChange={(e) => updateConfig({ model: e.target.value })}
+                          disabled={localModels.length === 0}
+                        >
+                          {localModels.length === 0 && (
+                            <option value={llmConfig.model}>{llmConfig.model || '无可用模型'}</option>
+                          )}
+                          {localModels.map(model => (
+                            <option key={model} value={model}>{model}</option>
+                          ))}
+                        </select>
+                        <button
+                          className="dropdown-icon-btn"
+                          onClick={() => refreshLocalModels()}
+                          disabled={localModelsLoading}
+                          title="刷新模型列表"
+                        >
+                          <RefreshCw size={12} className={localModelsLoading ? 'spin' : ''} />
+                        </button>
+                      </div>
+                    ) : (
+                      <input
+                        type="text"
+                        className="dropdown-input"
+                        value={llmConfig.model}
+                        onChange={(e) => updateConfig({ model: e.target.value })}
+                        placeholder="模型名称"
+                      />
+                    )}
+                    {llmConfig.provider === 'local' && localModelsError && (
+                      <div className="dropdown-error">{localModelsError}</div>
+                    )}
+                  </div>
+                  <div className="dropdown-section">
+                    <button className="dropdown-label dropdown-toggle" onClick={() => setGenerationOpen(!generationOpen)}>
+                      {generationOpen ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                      生成参数
+                    </button>
+                    {generationOpen && llmDefaults && <GenerationSettings config={llmConfig} defaults={llmDefaults.generation} onChange={updateConfig} />}
+                  </div>
+                  <div className="dropdown-section">
+                    <button className="dropdown-label dropdown-toggle" onClick={() => setCacheOpen(!cacheOpen)}>
+                      {cacheOpen ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                      响应缓存
+                    </button>
+                    {cacheOpen && llmDefaults && <CacheSettings config={llmConfig} defaults={llmDefaults.cache} onChange={updateConfig} />}
                   </div>
                   <div className="dropdown-section">
                     <div className="dropdown-label">API Key</div>
@@ -295,21 +1129,9 @@ const Sidebar: React.FC<SidebarProps> = ({
                       className="dropdown-input"
                       value={llmConfig.apiKey}
                       onChange={(e) => updateConfig({ apiKey: e.target.value })}
-                      placeholder="输入 API Key"
+                      placeholder={llmConfig.provider === 'local' ? '可选，服务启用认证时填写' : '输入 API Key'}
                     />
                   </div>
-                  {llmConfig.provider === 'custom' && (
-                    <div className="dropdown-section">
-                      <div className="dropdown-label">API URL</div>
-                      <input
-                        type="text"
-                        className="dropdown-input"
-                        value={llmConfig.apiUrl}
-                        onChange={(e) => updateConfig({ apiUrl: e.target.value })}
-                        placeholder="API 地址"
-                      />
-                    </div>
-                  )}
                 </div>
               )}
             </div>
@@ -372,25 +1194,57 @@ const Sidebar: React.FC<SidebarProps> = ({
                 </div>
               )}
             </div>
+
+            {/* Ask 模式：是否把编辑器中的文档作为对话上下文 */}
+            {mode === 'ask' && onIncludeDocumentChange && (
+              <button
+                className={`toolbar-btn context-btn ${includeDocument && hasContent ? 'active' : ''}`}
+                onClick={() => onIncludeDocumentChange(!includeDocument)}
+                disabled={!hasContent}
+                title={hasContent
+                  ? (includeDocument ? '已附带当前文档，点击取消' : '附带当前文档作为对话上下文')
+                  : '编辑器中没有文档'}
+              >
+                <FileText size={16} />
+              </button>
+            )}
           </div>
 
           <div className="toolbar-right">
-            <button
-              className="send-btn"
-              onClick={onSendMessage}
-              disabled={loading || !prompt.trim()}
-              title={
-                mode === 'edit' ? '发送编辑指令' :
-                mode === 'ask' ? '发送' :
-                '发送'
-              }
-            >
-              {loading ? (
-                <Loader2 size={16} className="spin" />
-              ) : (
-                <Send size={16} />
-              )}
-            </button>
+            {/* 用量估算 */}
+            {mode === 'build' && estimate && !loading && (
+              <span className={`token-estimate ${estimate.exceedsContext ? 'warning' : ''}`} title={describeEstimate(estimate)}>
+                {estimate.exceedsContext && <AlertTriangle size={12} />}
+                {estimate.approximate ? '粗估' : '≈'} {formatTokens(estimate.inputTokens + estimate.outputTokens)} tokens
+                {estimate.cost && ` · ${formatCost(estimate.cost)}`}
+              </span>
+            )}
+            {loading && onStopGeneration ? (
+              <button
+                className="send-btn stop-btn"
+                onClick={onStopGeneration}
+                title="停止生成"
+              >
+                <Square size={14} fill="currentColor" />
+              </button>
+            ) : (
+              <button
+                className="send-btn"
+                onClick={onSendMessage}
+                disabled={loading || !prompt.trim()}
+                title={
+                  mode === 'edit' ? '发送编辑指令' :
+                  mode === 'ask' ? '发送' :
+                  '发送'
+                }
+              >
+                {loading ? (
+                  <Loader2 size={16} className="spin" />
+                ) : (
+                  <Send size={16} />
+                )}
+              </button>
+            )}
           </div>
         </div>
       </div>
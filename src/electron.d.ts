@@ -1,10 +1,122 @@
 // Electron API 类型声明
 
+// LLM 配置（保存在用户设置中）
+interface LLMConfigType {
+  provider: 'qwen' | 'openai' | 'custom' | 'local';
+  apiKey: string;
+  apiUrl: string;
+  model: string;
+  customMode?: 'openai' | 'raw';   // 自定义 API 的接口格式
+  generation?: GenerationParams;   // 所有步骤通用的生成参数
+  stepGeneration?: Partial<Record<GenerationStep, GenerationParams>>;   // 按步骤覆盖的生成参数
+  cache?: ResponseCacheSettings;   // 响应缓存设置
+}
+
+// 生成参数，未设置的项使用默认值
+interface GenerationParams {
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+}
+
+// 可单独设置生成参数的步骤
+type GenerationStep = 'format' | 'questions' | 'final' | 'edit' | 'chat';
+
+// 响应缓存设置，未设置的项使用默认值
+interface ResponseCacheSettings {
+  enabled?: boolean;
+  ttlHours?: number;       // 有效期（小时）
+  maxSizeMB?: number;      // 容量上限（MB）
+}
+
+// 主进程使用的默认值
+interface LLMDefaults {
+  generation: GenerationParams;
+  cache: Required<ResponseCacheSettings>;
+  localUrl: string;        // 本地模型服务默认地址（Ollama）
+}
+
 // 处理步骤结果接口
 interface ProcessStepResult {
   step: 'format' | 'questions' | 'final';
   content: string;
   timestamp: string;
+  chunkCount?: number;     // 分块处理时的分块数
+  elapsedMs?: number;      // 步骤耗时（毫秒）
+  questions?: QuestionAnswer[];   // 步骤2 每道题的解答记录
+  usage?: TokenUsage;      // 本步骤所有请求的实际用量
+  cacheHits?: number;      // 本步骤使用缓存响应的请求数
+}
+
+// Token 用量
+interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  estimated?: boolean;     // 提供商没有返回用量时为估算值
+}
+
+// 按参考价格计算的费用
+interface UsageCost {
+  amount: number;
+  currency: 'CNY' | 'USD';
+}
+
+// 单个步骤的预估用量
+interface StepEstimate {
+  step: ProcessStepResult['step'];
+  requests: number;          // 请求次数
+  inputTokens: number;
+  outputTokens: number;
+  maxRequestTokens: number;  // 单次请求的最大占用（输入 + 输出上限）
+}
+
+// 作业处理的预估用量和费用
+interface HomeworkEstimate {
+  model: string;
+  steps: StepEstimate[];
+  inputTokens: number;
+  outputTokens: number;
+  cost?: UsageCost;          // 模型价格未知时为空
+  contextWindow?: number;    // 模型上下文长度，未知时为空
+  exceedsContext: boolean;   // 是否有请求超出上下文长度
+  approximate: boolean;      // token 数是否为粗略估算（模型的分词器未公开时）
+  questionCount: number;     // 按题号估算的题目数
+  chunkCount: number;
+}
+
+// 单道题目的解答记录
+interface QuestionAnswer {
+  id: number;
+  question: string;
+  type?: string;
+  answer: string;
+  keyPoints?: string[];
+  chunkIndex?: number;     // 题目所在的分块（从 1 开始）
+  model?: string;          // 生成答案使用的模型
+  error?: string;          // 解答失败的原因，可单独重新生成
+}
+
+// 对话消息
+interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// 请求重试信息
+interface RetryInfo {
+  attempt: number;       // 第几次重试（从 1 开始）
+  maxRetries: number;
+  delayMs: number;       // 距下次重试的等待时间
+  reason: string;        // 失败原因
+  step?: 'format' | 'questions' | 'final' | 'edit' | 'chat';   // 重试的请求所属步骤
+}
+
+// 处理步骤进度事件
+interface ProcessStepEvent {
+  step: ProcessStepResult['step'];
+  status: 'start' | 'complete';
+  elapsedMs: number;            // 开始事件为 0
+  result?: ProcessStepResult;   // 完成事件附带步骤结果
 }
 
 // 完整处理结果接口
@@ -12,6 +124,67 @@ interface HomeworkProcessResult {
   formatTemplate: ProcessStepResult;
   questionsAnswer: ProcessStepResult;
   finalResult: ProcessStepResult;
+  chunkCount: number;      // 附件内容被切分的块数，无附件时为 0
+  usage?: TokenUsage;      // 本次处理所有请求的实际用量（不含复用的步骤）
+  cost?: UsageCost;        // 按参考价格计算的费用
+  cacheHits?: number;      // 使用缓存响应的请求数
+}
+
+// 响应缓存的统计
+interface ResponseCacheStats {
+  entries: number;
+  bytes: number;
+}
+
+// 单次模型调用的记录
+interface LLMCallTrace {
+  step?: RetryInfo['step'];
+  provider: string;
+  model: string;
+  params: { temperature?: number; maxTokens?: number; topP?: number };
+  jsonMode?: boolean;
+  messages: { role: 'system' | 'user' | 'assistant'; content: string }[];
+  response?: string;         // 完整响应（含续写的内容）
+  error?: string;
+  startedAt: string;
+  latencyMs: number;         // 包含排队、重试和续写的总耗时
+  retries: RetryInfo[];
+  usage?: TokenUsage;
+  cached?: boolean;          // 使用了缓存的响应
+}
+
+type TraceKind = 'build' | 'ask' | 'edit' | 'regenerate' | 'call';
+
+// 一次请求的记录（Build、Ask、Edit 等），包含其中所有模型调用
+interface RequestTrace {
+  id: string;
+  kind: TraceKind;
+  status: 'running' | 'success' | 'error' | 'cancelled';
+  prompt: string;
+  attachments: string[];     // 附件文件名
+  provider: string;
+  model: string;
+  startedAt: string;
+  elapsedMs?: number;
+  error?: string;
+  calls: LLMCallTrace[];
+}
+
+// 请求记录列表中的摘要
+interface TraceSummary {
+  id: string;
+  kind: TraceKind;
+  status: RequestTrace['status'];
+  prompt: string;            // 截断后的提示词
+  provider: string;
+  model: string;
+  startedAt: string;
+  elapsedMs?: number;
+  error?: string;
+  callCount: number;
+  retryCount: number;
+  cachedCount: number;
+  usage?: TokenUsage;
 }
 
 // 编辑修改项接口
@@ -27,37 +200,171 @@ interface EditContentResult {
   summary: string;
 }
 
+// 页码范围（从 1 开始，包含首尾）
+interface PageRange {
+  start: number;
+  end: number;
+}
+
+// 分页文档的单页元数据
+interface PageInfo {
+  pageNumber: number;
+  charCount: number;
+  hasText: boolean;
+  ocrConfidence?: number;  // 通过 OCR 识别时的置信度 0-100
+}
+
+// 传给 LLM 的附件来源
+interface LLMAttachment {
+  name: string;
+  type: string;      // 文件扩展名（不含点），如 pdf、docx
+  content: string;
+}
+
+// 提示词模版
+type PromptStep = 'format' | 'questions' | 'answer' | 'final' | 'direct' | 'merge' | 'edit' | 'chat';
+
+interface PromptTemplate {
+  id: string;
+  step: PromptStep;
+  name: string;
+  content: string;         // 使用 {{变量名}} 引用变量
+  builtin?: boolean;       // 内置模版：不能删除，可以恢复默认内容
+}
+
+interface PromptTemplateLibrary {
+  templates: PromptTemplate[];
+  active: Partial<Record<PromptStep, string>>;   // 各步骤选用的模版 id
+}
+
+// 步骤说明和可用变量
+interface PromptStepInfo {
+  step: PromptStep;
+  name: string;
+  description: string;
+  variables: { name: string; description: string }[];
+  json?: boolean;          // 要求输出 JSON
+}
+
+// 支持的文件格式
+interface FileFormatInfo {
+  name: string;
+  extensions: string[];      // 扩展名（不含点）
+  mimeTypes: string[];
+  importable: boolean;       // 是否可导入到编辑器
+}
+
+// 文件处理选项
+interface ProcessFileOptions {
+  // markdown：返回保留结构的 Markdown（导入编辑器时使用），默认返回纯文本
+  format?: 'text' | 'markdown';
+  // PDF 只提取指定页码范围
+  pageRange?: PageRange;
+  // 文本文件（.txt、.md、.csv）的编码，未指定时自动检测
+  encoding?: string;
+}
+
 declare global {
   interface Window {
     electronAPI: {
-      processFile: (filePath: string) => Promise<{ success: boolean; content?: string; error?: string }>;
-      callLLM: (prompt: string, fileContent: string, llmConfig: any) => Promise<{ success: boolean; result?: string; error?: string }>;
+      processFile: (filePath: string, options?: ProcessFileOptions) => Promise<{
+        success: boolean;
+        content?: string;
+        title?: string;
+        pages?: PageInfo[];
+        images?: string[];
+        warnings?: string[];
+        fileSize?: number;
+        encoding?: string;
+        error?: string
+      }>;
+      callLLM: (prompt: string, attachments: LLMAttachment[], llmConfig: any, requestId?: string) => Promise<{ success: boolean; result?: string; error?: string; cancelled?: boolean }>;
+      // 多轮对话（Ask 模式），document 为可选的当前编辑器文档
+      chat: (
+        messages: ChatMessage[],
+        attachments: LLMAttachment[],
+        llmConfig: any,
+        document?: string,
+        requestId?: string
+      ) => Promise<{ success: boolean; result?: string; error?: string; cancelled?: boolean }>;
       // 新增：分步处理作业
-      processHomeworkSteps: (prompt: string, fileContent: string, llmConfig: any) => Promise<{ 
+      processHomeworkSteps: (
+        prompt: string,
+        attachments: LLMAttachment[],
+        llmConfig: any,
+        requestId?: string,
+        completedSteps?: ProcessStepResult[],   // 已完成的步骤，从失败的步骤继续时复用
+        bypassCache?: boolean                   // 不使用缓存的响应（重新生成）
+      ) => Promise<{ 
         success: boolean; 
         result?: HomeworkProcessResult; 
-        error?: string 
+        error?: string;
+        cancelled?: boolean       // 请求被用户取消
       }>;
+      // 发送前估算作业处理的用量、费用和是否超出上下文长度
+      estimateHomework: (
+        prompt: string,
+        attachments: LLMAttachment[],
+        llmConfig: any
+      ) => Promise<{ success: boolean; estimate?: HomeworkEstimate; error?: string }>;
+      // 流式输出：订阅 LLM 增量文本（附带发起请求的 ID），返回取消订阅函数
+      onLLMToken: (callback: (requestId: string | undefined, token: string) => void) => () => void;
+      // 作业处理步骤进度：订阅步骤开始/完成事件，返回取消订阅函数
+      onProcessStep: (callback: (requestId: string | undefined, event: ProcessStepEvent) => void) => () => void;
+      // 请求重试：订阅请求失败后的重试通知，返回取消订阅函数
+      onLLMRetry: (callback: (requestId: string | undefined, info: RetryInfo) => void) => () => void;
       // 新增：编辑内容 (Copilot 风格)
-      editContent: (instruction: string, currentContent: string, llmConfig: any) => Promise<{
+      editContent: (instruction: string, currentContent: string, llmConfig: any, requestId?: string) => Promise<{
         success: boolean;
         result?: EditContentResult;
-        error?: string
+        error?: string;
+        cancelled?: boolean
       }>;
-      // 新增：保存调试数据
-      saveDebugData: (data: ProcessStepResult, filename: string) => Promise<{ success: boolean; path?: string; error?: string }>;
+      // 重新生成单道题目的答案（可指定不同的模型），返回更新后的步骤2 结果
+      regenerateAnswer: (
+        questionsStep: ProcessStepResult,
+        questionId: number,
+        prompt: string,
+        attachments: LLMAttachment[],
+        llmConfig: any,
+        requestId?: string
+      ) => Promise<{ success: boolean; result?: ProcessStepResult; error?: string; cancelled?: boolean }>;
+      // 响应缓存：查看占用空间、清空
+      getResponseCacheStats: () => Promise<{ success: boolean; stats?: ResponseCacheStats; error?: string }>;
+      clearResponseCache: () => Promise<{ success: boolean; stats?: ResponseCacheStats; error?: string }>;
+      // 取消进行中的 LLM 请求
+      cancelRequest: (requestId: string) => Promise<{ success: boolean; error?: string }>;
+      // 生成参数、响应缓存和本地模型服务地址的默认值
+      getLLMDefaults: () => Promise<LLMDefaults>;
+      // 获取本地模型服务（Ollama / llama.cpp）上的模型列表
+      listLocalModels: (apiUrl?: string, apiKey?: string) => Promise<{ success: boolean; models?: string[]; error?: string }>;
+      // 请求记录：搜索、查看、导出和清空
+      listTraces: (query?: string) => Promise<{ success: boolean; traces?: TraceSummary[]; error?: string }>;
+      getTrace: (id: string) => Promise<{ success: boolean; trace?: RequestTrace; error?: string }>;
+      exportTraces: (ids: string[]) => Promise<{ success: boolean; canceled?: boolean; path?: string; error?: string }>;
+      clearTraces: () => Promise<{ success: boolean; removed?: number; error?: string }>;
       convertFile: (mdContent: string, format: 'doc' | 'pdf' | 'md', outputPath?: string, formatSettings?: any) => Promise<{ success: boolean; path?: string; buffer?: Buffer; error?: string }>;
       saveFileDialog: (defaultFilename: string) => Promise<{ canceled: boolean; filePath?: string }>;
-      openFileDialog: () => Promise<{ canceled: boolean; filePath?: string }>;
+      openFileDialog: () => Promise<{ canceled: boolean; filePath?: string; filePaths?: string[] }>;
+      getFileFormats: () => Promise<FileFormatInfo[]>;
       openMarkdownFileDialog: () => Promise<{ canceled: boolean; filePath?: string }>;
       // 设置相关
       saveSettings: (settings: any) => Promise<{ success: boolean; error?: string }>;
       loadSettings: () => Promise<{ success: boolean; settings?: any; error?: string }>;
+      // 提示词模版
+      loadPromptTemplates: () => Promise<{
+        success: boolean;
+        library?: PromptTemplateLibrary;
+        steps?: PromptStepInfo[];
+        defaults?: Record<PromptStep, string>;   // 应用自带的提示词，用于恢复默认
+        error?: string
+      }>;
+      savePromptTemplates: (library: PromptTemplateLibrary) => Promise<{ success: boolean; library?: PromptTemplateLibrary; error?: string }>;
       // 图片相关
       selectAndSaveImage: () => Promise<{ success: boolean; canceled?: boolean; relativePath?: string; fullPath?: string; error?: string }>;
     };
   }
 }
 
-export { ProcessStepResult, HomeworkProcessResult, EditContentResult, EditChange };
+export { LLMConfigType, GenerationParams, GenerationStep, ResponseCacheSettings, LLMDefaults, LLMCallTrace, TraceKind, RequestTrace, TraceSummary, ResponseCacheStats, TokenUsage, UsageCost, StepEstimate, HomeworkEstimate, PromptStep, PromptTemplate, PromptTemplateLibrary, PromptStepInfo, ProcessStepResult, QuestionAnswer, ProcessStepEvent, RetryInfo, ChatMessage, HomeworkProcessResult, EditContentResult, EditChange, PageRange, PageInfo, ProcessFileOptions, LLMAttachment, FileFormatInfo };
 